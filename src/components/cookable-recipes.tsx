@@ -0,0 +1,92 @@
+import type { PantryItem } from '@/lib/pantry'
+import type { SavedRecipe } from '@/lib/recipes'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { canCookNow, rankCookableRecipes } from '@/lib/recipes'
+
+type CookableRecipesProps = {
+  recipes: Array<SavedRecipe>
+  pantry: Array<PantryItem>
+  onLoad: (recipe: SavedRecipe, portions: number) => void
+}
+
+export default function CookableRecipes({
+  recipes,
+  pantry,
+  onLoad,
+}: CookableRecipesProps) {
+  const ranked = rankCookableRecipes(recipes, pantry)
+
+  if (ranked.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground italic">
+        {recipes.length === 0
+          ? 'Save recipes to the library to see which ones the pantry covers'
+          : 'Every saved recipe is missing several ingredients'}
+      </p>
+    )
+  }
+
+  return (
+    <ul className="space-y-2">
+      {ranked.map((cookable) => {
+        const { recipe, maxPortions, missing, unknown } = cookable
+        const cookNow = canCookNow(cookable)
+        // Load the recipe at its own size unless the pantry allows less
+        const portions =
+          cookNow && maxPortions !== null
+            ? Math.min(maxPortions, recipe.portions)
+            : recipe.portions
+
+        return (
+          <li
+            key={recipe.id}
+            className="flex flex-wrap items-center gap-2 rounded-md border p-2 text-sm"
+          >
+            <span className="font-medium">{recipe.name}</span>
+            {cookNow ? (
+              <Badge
+                variant="outline"
+                className="border-green-600 text-green-700"
+              >
+                {maxPortions === null
+                  ? 'Cook now'
+                  : `Cook now, up to ${maxPortions} portions`}
+              </Badge>
+            ) : missing.length > 0 ? (
+              <Badge
+                variant="outline"
+                className="border-amber-500 text-amber-700"
+              >
+                {missing.length} missing
+              </Badge>
+            ) : (
+              <Badge
+                variant="outline"
+                className="border-amber-500 text-amber-700"
+              >
+                Not enough for one portion
+              </Badge>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => onLoad(recipe, portions)}
+            >
+              Load
+            </Button>
+            {(missing.length > 0 || unknown.length > 0) && (
+              <p className="w-full text-xs text-muted-foreground">
+                {missing.length > 0 && `Missing ${missing.join(', ')}`}
+                {missing.length > 0 && unknown.length > 0 && ' · '}
+                {unknown.length > 0 &&
+                  `check ${unknown.join(', ')} by hand, the pantry unit does not convert`}
+              </p>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,132 @@
+import type { Ingredient } from '@/lib/types'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toGrams } from '@/lib/density'
+import { toEdibleQuantity } from '@/lib/edible'
+import { formatDecimal, parseQuantity } from '@/lib/quantity'
+import { findFoodYield, getYieldFactor } from '@/lib/yield'
+
+export type CookedYield = {
+  // Recipe-wide factor on top of the ingredient yields, e.g. for reduction
+  factor: string
+  // Weighed finished dish in grams; overrides every factor
+  finalWeight: string
+}
+
+type CookedYieldProps = {
+  ingredients: Array<Ingredient>
+  cookedYield: CookedYield
+  cookedWeight: number | null
+  onCookedYieldChange: (cookedYield: CookedYield) => void
+  onUpdateIngredient: (index: number, field: string, value: string) => void
+}
+
+export default function CookedYieldEditor({
+  ingredients,
+  cookedYield,
+  cookedWeight,
+  onCookedYieldChange,
+  onUpdateIngredient,
+}: CookedYieldProps) {
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Ingredient</TableHead>
+            <TableHead className="text-right">Raw</TableHead>
+            <TableHead className="text-right">Yield factor</TableHead>
+            <TableHead className="text-right">Cooked</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ingredients.map((ingredient, index) => {
+            // Trimmings never reach the pan, so only the edible share cooks
+            const quantity = parseQuantity(ingredient.quantity)
+            const grams =
+              quantity === null
+                ? null
+                : toGrams(toEdibleQuantity(quantity, ingredient), ingredient)
+            if (!ingredient.name || grams === null) return null
+
+            const food = findFoodYield(ingredient.name)
+            return (
+              <TableRow key={index}>
+                <TableCell className="font-medium">
+                  {ingredient.name}
+                  {food && !ingredient.yieldFactor && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {food.kind}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatDecimal(grams, 0)} g
+                </TableCell>
+                <TableCell className="text-right">
+                  <Input
+                    className="h-8 w-20 ml-auto"
+                    placeholder={formatDecimal(food?.factor ?? 1)}
+                    value={ingredient.yieldFactor ?? ''}
+                    onChange={(e) =>
+                      onUpdateIngredient(index, 'yieldFactor', e.target.value)
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatDecimal(grams * getYieldFactor(ingredient), 0)} g
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+
+      <div className="grid sm:grid-cols-3 gap-4 items-end">
+        <div>
+          <Label htmlFor="recipeYield" className="mb-1">
+            Recipe yield factor
+          </Label>
+          <Input
+            id="recipeYield"
+            placeholder="1"
+            value={cookedYield.factor}
+            onChange={(e) =>
+              onCookedYieldChange({ ...cookedYield, factor: e.target.value })
+            }
+          />
+        </div>
+        <div>
+          <Label htmlFor="finalWeight" className="mb-1">
+            Measured cooked weight (g)
+          </Label>
+          <Input
+            id="finalWeight"
+            type="number"
+            min="0"
+            value={cookedYield.finalWeight}
+            onChange={(e) =>
+              onCookedYieldChange({
+                ...cookedYield,
+                finalWeight: e.target.value,
+              })
+            }
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {cookedWeight !== null
+            ? `Cooked weight ≈ ${formatDecimal(cookedWeight, 0)} g`
+            : 'Every ingredient needs a weight, or enter the measured cooked weight'}
+        </p>
+      </div>
+    </div>
+  )
+}
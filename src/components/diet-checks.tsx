@@ -0,0 +1,124 @@
+import { CircleCheck, CircleHelp, CircleX, TriangleAlert } from 'lucide-react'
+import type { DietCheck, DietRow, DietRuleSetId } from '@/lib/diet-rules'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Input } from '@/components/ui/input'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { useLocalStorage } from '@/hooks/use-local-storage'
+import { DIET_RULE_SETS, evaluateRuleSet, getLimitKey } from '@/lib/diet-rules'
+
+type DietChecksProps = {
+  rows: Array<DietRow>
+}
+
+// A minimum is failed from below, a maximum or an ingredient to avoid from
+// above
+const getStatusLabel = ({ status, bound }: DietCheck) => {
+  switch (status) {
+    case 'pass':
+      return 'within limit'
+    case 'warn':
+      return 'close to the limit'
+    case 'fail':
+      return bound === 'min' ? 'under the minimum' : 'over the limit'
+    case 'unknown':
+      return 'no data'
+  }
+}
+
+export default function DietChecks({ rows }: DietChecksProps) {
+  const [activeIds, setActiveIds] = useLocalStorage<Array<DietRuleSetId>>(
+    'porzio:diet-rule-sets',
+    [],
+  )
+  const [overrides, setOverrides] = useLocalStorage<Record<string, string>>(
+    'porzio:diet-limits',
+    {},
+  )
+
+  const activeSets = DIET_RULE_SETS.filter((ruleSet) =>
+    activeIds.includes(ruleSet.id),
+  )
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        className="flex-wrap"
+        value={activeIds}
+        onValueChange={(value) => setActiveIds(value as Array<DietRuleSetId>)}
+      >
+        {DIET_RULE_SETS.map((ruleSet) => (
+          <ToggleGroupItem key={ruleSet.id} value={ruleSet.id}>
+            {ruleSet.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {activeSets.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">
+          Select a diet to check the adjusted servings against its limits
+        </p>
+      )}
+
+      {activeSets.map((ruleSet) => (
+        <div key={ruleSet.id} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span className="text-sm font-medium text-foreground">
+              {ruleSet.label}
+            </span>
+            {ruleSet.limits.map((limit) => {
+              const bound = limit.max !== undefined ? 'max' : 'min'
+              const key = getLimitKey(ruleSet.id, limit, bound)
+              return (
+                <label key={key} className="flex items-center gap-1">
+                  {limit.label} {bound}
+                  <Input
+                    className="h-7 w-20"
+                    placeholder={limit[bound]?.toString()}
+                    value={overrides[key] ?? ''}
+                    onChange={(e) =>
+                      setOverrides({ ...overrides, [key]: e.target.value })
+                    }
+                  />
+                  {limit.unit}
+                </label>
+              )
+            })}
+          </div>
+          {evaluateRuleSet(ruleSet, rows, overrides).map((check) => (
+            <Alert
+              key={check.label}
+              variant={check.status === 'fail' ? 'destructive' : 'default'}
+              className={
+                check.status === 'warn'
+                  ? 'border-amber-500 text-amber-700'
+                  : undefined
+              }
+            >
+              {check.status === 'pass' ? (
+                <CircleCheck />
+              ) : check.status === 'warn' ? (
+                <TriangleAlert />
+              ) : check.status === 'unknown' ? (
+                <CircleHelp />
+              ) : (
+                <CircleX />
+              )}
+              <AlertTitle>
+                {check.label}: {getStatusLabel(check)}
+              </AlertTitle>
+              <AlertDescription>
+                <p>{check.detail}</p>
+                {check.contributors.length > 0 && (
+                  <p>Mostly from {check.contributors.join(', ')}</p>
+                )}
+              </AlertDescription>
+            </Alert>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
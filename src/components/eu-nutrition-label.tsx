@@ -0,0 +1,161 @@
+import { useRef } from 'react'
+import { Download } from 'lucide-react'
+import type { ReactNode } from 'react'
+import type { NutrientKey } from '@/lib/nutrients'
+import { Button } from '@/components/ui/button'
+import { downloadSvg, wrapText } from '@/lib/svg'
+import { getEuDeclaration } from '@/lib/eu-label'
+
+type EuNutritionLabelProps = {
+  getTotal: (nutrient: NutrientKey) => number
+  // Weight of the finished batch, for the per 100 g column
+  batchGrams: number | null
+  portions: number
+  // Allergen statement printed below the table
+  contains: string | null
+}
+
+const WIDTH = 360
+const PADDING = 8
+const ROW_HEIGHT = 16
+const INDENT = 12
+// Right edges of the per 100 g, per portion and %RI columns
+const COLUMNS = [196, 284, WIDTH - PADDING]
+const FONT = 'Helvetica, Arial, sans-serif'
+
+// Same plain SVG approach as the US panel, laid out as the tabular
+// declaration of EU Regulation 1169/2011
+export default function EuNutritionLabel({
+  getTotal,
+  batchGrams,
+  portions,
+  contains,
+}: EuNutritionLabelProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const rows = getEuDeclaration(getTotal, batchGrams, portions)
+  const portionGrams = batchGrams && portions > 0 ? batchGrams / portions : null
+
+  const elements: Array<ReactNode> = []
+  let y = PADDING
+
+  const addText = (
+    text: string,
+    x: number,
+    options: { anchor?: 'start' | 'end'; bold?: boolean; size?: number } = {},
+  ) => {
+    elements.push(
+      <text
+        key={elements.length}
+        x={x}
+        y={y}
+        fontSize={options.size ?? 11}
+        fontWeight={options.bold ? 'bold' : 'normal'}
+        textAnchor={options.anchor ?? 'start'}
+      >
+        {text}
+      </text>,
+    )
+  }
+
+  const addRule = (thickness: number) => {
+    elements.push(
+      <rect
+        key={elements.length}
+        x={PADDING}
+        y={y}
+        width={WIDTH - PADDING * 2}
+        height={thickness}
+        fill="black"
+      />,
+    )
+    y += thickness
+  }
+
+  y += 18
+  addText('Nutrition declaration', PADDING, { bold: true, size: 16 })
+  y += 6
+  addRule(2)
+  y += 14
+  addText('Per 100 g', COLUMNS[0], { anchor: 'end', bold: true })
+  addText(
+    portionGrams === null
+      ? 'Per portion'
+      : `Per portion (${Math.round(portionGrams)} g)`,
+    COLUMNS[1],
+    { anchor: 'end', bold: true },
+  )
+  addText('%RI*', COLUMNS[2], { anchor: 'end', bold: true })
+  y += 5
+  addRule(1)
+
+  for (const row of rows) {
+    const lines = Math.max(row.per100g?.length ?? 1, row.perPortion.length)
+    const top = y
+
+    for (let line = 0; line < lines; line++) {
+      y = top + ROW_HEIGHT * (line + 1) - 4
+      if (line === 0) {
+        addText(row.label, PADDING + row.depth * INDENT, {
+          bold: row.depth === 0,
+        })
+        addText(`${row.referenceIntake}%`, COLUMNS[2], { anchor: 'end' })
+      }
+      addText(row.per100g?.[line] ?? '-', COLUMNS[0], { anchor: 'end' })
+      addText(row.perPortion[line] ?? '', COLUMNS[1], { anchor: 'end' })
+    }
+
+    y = top + ROW_HEIGHT * lines
+    addRule(0.5)
+  }
+
+  y += 13
+  addText(
+    '*Reference intake of an average adult (8 400 kJ/2 000 kcal)',
+    PADDING,
+    { size: 9 },
+  )
+  if (contains) {
+    y += 3
+    for (const line of wrapText(contains, 55)) {
+      y += 14
+      addText(line, PADDING, { bold: true })
+    }
+  }
+  y += PADDING
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        width={WIDTH}
+        height={y}
+        viewBox={`0 0 ${WIDTH} ${y}`}
+        fontFamily={FONT}
+        role="img"
+        aria-label="Nutrition declaration"
+      >
+        <rect
+          x={0.5}
+          y={0.5}
+          width={WIDTH - 1}
+          height={y - 1}
+          fill="white"
+          stroke="black"
+        />
+        {elements}
+      </svg>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          svgRef.current &&
+          downloadSvg(svgRef.current, 'nutrition-declaration.svg')
+        }
+      >
+        <Download className="h-4 w-4 mr-2" />
+        Download SVG
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import type { MacroNutrient, OptimizerRow } from '@/lib/optimizer'
+import type { Ingredient } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toEdibleQuantity } from '@/lib/edible'
+import { STANDARD_SERVING, getNutritionAmount } from '@/lib/nutrition'
+import {
+  MACRO_NUTRIENTS,
+  getMacrosPerServing,
+  optimizeMacros,
+} from '@/lib/optimizer'
+import { formatDecimal, parseQuantity } from '@/lib/quantity'
+
+type MacroOptimizerProps = {
+  ingredients: Array<Ingredient>
+  portions: number
+  onUpdateIngredient: (index: number, field: string, value: string) => void
+}
+
+const MACRO_LABELS: Record<MacroNutrient, string> = {
+  protein: 'Protein',
+  carbs: 'Carbs',
+  fat: 'Fat',
+}
+
+// Default bounds when the cook has not set any: half to one and a half times
+// the written quantity
+const DEFAULT_MIN_SHARE = 0.5
+const DEFAULT_MAX_SHARE = 1.5
+
+export default function MacroOptimizer({
+  ingredients,
+  portions,
+  onUpdateIngredient,
+}: MacroOptimizerProps) {
+  const [targets, setTargets] = useState<Record<MacroNutrient, string>>({
+    protein: '',
+    carbs: '',
+    fat: '',
+  })
+
+  // Rows with a weighable quantity and macro data become variables, the
+  // rest contribute a fixed amount
+  const variables: Array<{ index: number; row: OptimizerRow }> = []
+  const fixedPerServing: Record<MacroNutrient, number> = {
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+  }
+
+  ingredients.forEach((ingredient, index) => {
+    const quantity = parseQuantity(ingredient.quantity)
+    if (quantity === null) return
+
+    const amountPerUnit = getNutritionAmount(
+      toEdibleQuantity(1, ingredient),
+      ingredient,
+    )
+    if (amountPerUnit === null) return
+
+    const perUnit = Object.fromEntries(
+      MACRO_NUTRIENTS.map((nutrient) => [
+        nutrient,
+        ((Number.parseFloat(ingredient[nutrient]) || 0) * amountPerUnit) /
+          STANDARD_SERVING,
+      ]),
+    ) as Record<MacroNutrient, number>
+
+    if (MACRO_NUTRIENTS.every((nutrient) => perUnit[nutrient] === 0)) return
+
+    const min =
+      parseQuantity(ingredient.minQuantity ?? '') ??
+      quantity * DEFAULT_MIN_SHARE
+    const max =
+      parseQuantity(ingredient.maxQuantity ?? '') ??
+      quantity * DEFAULT_MAX_SHARE
+
+    if (min >= max) {
+      MACRO_NUTRIENTS.forEach((nutrient) => {
+        fixedPerServing[nutrient] += (perUnit[nutrient] * quantity) / portions
+      })
+      return
+    }
+
+    variables.push({ index, row: { quantity, min, max, perUnit } })
+  })
+
+  const parsedTargets = Object.fromEntries(
+    MACRO_NUTRIENTS.map((nutrient) => [
+      nutrient,
+      Number.parseFloat(targets[nutrient]) || undefined,
+    ]),
+  )
+  const hasTargets = MACRO_NUTRIENTS.some((nutrient) => parsedTargets[nutrient])
+
+  const rows = variables.map(({ row }) => row)
+  const current = getMacrosPerServing(
+    rows,
+    rows.map((row) => row.quantity),
+    portions,
+    fixedPerServing,
+  )
+  const proposal = hasTargets
+    ? optimizeMacros(rows, parsedTargets, portions, fixedPerServing)
+    : null
+
+  const applyProposal = () => {
+    if (!proposal) return
+
+    variables.forEach(({ index }, j) => {
+      onUpdateIngredient(
+        index,
+        'quantity',
+        formatDecimal(proposal.quantities[j]),
+      )
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4">
+        {MACRO_NUTRIENTS.map((nutrient) => (
+          <div key={nutrient}>
+            <Label htmlFor={`target-${nutrient}`} className="mb-1">
+              {MACRO_LABELS[nutrient]} per serving (g)
+            </Label>
+            <Input
+              id={`target-${nutrient}`}
+              type="number"
+              min="0"
+              value={targets[nutrient]}
+              onChange={(e) =>
+                setTargets({ ...targets, [nutrient]: e.target.value })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      {variables.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Ingredient</TableHead>
+              <TableHead className="text-right">Original</TableHead>
+              <TableHead className="text-right">Min</TableHead>
+              <TableHead className="text-right">Max</TableHead>
+              <TableHead className="text-right">Proposed</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variables.map(({ index, row }, j) => (
+              <TableRow key={index}>
+                <TableCell className="font-medium">
+                  {ingredients[index].name}
+                </TableCell>
+                <TableCell className="text-right">
+                  {ingredients[index].quantity} {ingredients[index].unit}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Input
+                    className="h-8 w-20 ml-auto"
+                    placeholder={formatDecimal(row.min)}
+                    value={ingredients[index].minQuantity ?? ''}
+                    onChange={(e) =>
+                      onUpdateIngredient(index, 'minQuantity', e.target.value)
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Input
+                    className="h-8 w-20 ml-auto"
+                    placeholder={formatDecimal(row.max)}
+                    value={ingredients[index].maxQuantity ?? ''}
+                    onChange={(e) =>
+                      onUpdateIngredient(index, 'maxQuantity', e.target.value)
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {proposal
+                    ? `${formatDecimal(proposal.quantities[j])} ${ingredients[index].unit}`
+                    : '-'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-muted-foreground italic text-center py-6">
+          Add ingredients with quantities and macronutrient data to optimize
+          them
+        </p>
+      )}
+
+      {proposal && (
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <Table className="max-w-md">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Per serving</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead className="text-right">Proposed</TableHead>
+                <TableHead className="text-right">Target</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {MACRO_NUTRIENTS.map((nutrient) => (
+                <TableRow key={nutrient}>
+                  <TableCell>{MACRO_LABELS[nutrient]}</TableCell>
+                  <TableCell className="text-right">
+                    {formatDecimal(current[nutrient])}g
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatDecimal(proposal.perServing[nutrient])}g
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {parsedTargets[nutrient] !== undefined
+                      ? `${parsedTargets[nutrient]}g`
+                      : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Button onClick={applyProposal}>Apply proposed quantities</Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import { useRef } from 'react'
+import { Download } from 'lucide-react'
+import type { ReactNode } from 'react'
+import type { FdaLabelLine } from '@/lib/fda-label'
+import type { NutrientKey } from '@/lib/nutrients'
+import { Button } from '@/components/ui/button'
+import { downloadSvg, wrapText } from '@/lib/svg'
+import { formatServingsPerContainer, getFdaLabel } from '@/lib/fda-label'
+
+type NutritionLabelProps = {
+  // Unrounded amount of a nutrient in one serving
+  getPerServing: (nutrient: NutrientKey) => number
+  servingGrams: number | null
+  servings: number
+  // Allergen statement printed below the panel
+  contains: string | null
+}
+
+const WIDTH = 280
+const PADDING = 8
+const INDENT = 12
+const FONT = 'Helvetica, Arial, sans-serif'
+
+const FOOTNOTE = [
+  '* The % Daily Value (DV) tells you how much a nutrient in',
+  'a serving of food contributes to a daily diet. 2,000 calories',
+  'a day is used for general nutrition advice.',
+]
+
+// Rendered as plain SVG so the very same markup can be downloaded and
+// printed on a container label
+export default function NutritionLabel({
+  getPerServing,
+  servingGrams,
+  servings,
+  contains,
+}: NutritionLabelProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const label = getFdaLabel(getPerServing)
+
+  const elements: Array<ReactNode> = []
+  let y = PADDING
+
+  const addText = (
+    text: ReactNode,
+    size: number,
+    options: { x?: number; anchor?: 'start' | 'end'; bold?: boolean } = {},
+  ) => {
+    elements.push(
+      <text
+        key={elements.length}
+        x={options.x ?? (options.anchor === 'end' ? WIDTH - PADDING : PADDING)}
+        y={y}
+        fontSize={size}
+        fontWeight={options.bold ? 'bold' : 'normal'}
+        textAnchor={options.anchor ?? 'start'}
+      >
+        {text}
+      </text>,
+    )
+  }
+
+  const addRule = (thickness: number, x = PADDING) => {
+    elements.push(
+      <rect
+        key={elements.length}
+        x={x}
+        y={y}
+        width={WIDTH - PADDING - x}
+        height={thickness}
+        fill="black"
+      />,
+    )
+    y += thickness
+  }
+
+  const addLine = (line: FdaLabelLine) => {
+    const x = PADDING + line.depth * INDENT
+    y += 14
+    addText(
+      line.key === 'addedSugars' ? (
+        `Includes ${line.amount} Added Sugars`
+      ) : (
+        <>
+          <tspan fontWeight={line.depth === 0 ? 'bold' : 'normal'}>
+            {line.label}
+          </tspan>{' '}
+          {line.amount}
+        </>
+      ),
+      12,
+      { x },
+    )
+    if (line.dailyValue !== null) {
+      addText(`${line.dailyValue}%`, 12, { anchor: 'end', bold: true })
+    }
+    y += 4
+    addRule(0.75, x)
+  }
+
+  y += 28
+  addText('Nutrition Facts', 30, { bold: true })
+  y += 6
+  addRule(0.75)
+  y += 16
+  addText(formatServingsPerContainer(servings), 13)
+  y += 18
+  addText('Serving size', 15, { bold: true })
+  addText(
+    servingGrams === null
+      ? '1 serving'
+      : `1 serving (${Math.round(servingGrams)}g)`,
+    15,
+    { anchor: 'end', bold: true },
+  )
+  y += 6
+  addRule(10)
+  y += 13
+  addText('Amount per serving', 11, { bold: true })
+  y += 28
+  addText('Calories', 26, { bold: true })
+  addText(label.calories, 32, { anchor: 'end', bold: true })
+  y += 5
+  addRule(5)
+  y += 13
+  addText('% Daily Value*', 11, { anchor: 'end', bold: true })
+  y += 4
+  addRule(0.75)
+  label.nutrients.forEach(addLine)
+  addRule(10)
+  label.vitamins.forEach((line) => addLine({ ...line, depth: 0 }))
+  addRule(5)
+  for (const footnote of FOOTNOTE) {
+    y += 11
+    addText(footnote, 8.5)
+  }
+  if (contains) {
+    y += 4
+    for (const line of wrapText(contains, 40)) {
+      y += 14
+      addText(line, 11, { bold: true })
+    }
+  }
+  y += PADDING
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        width={WIDTH}
+        height={y}
+        viewBox={`0 0 ${WIDTH} ${y}`}
+        fontFamily={FONT}
+        role="img"
+        aria-label="Nutrition Facts"
+      >
+        <rect
+          x={0.5}
+          y={0.5}
+          width={WIDTH - 1}
+          height={y - 1}
+          fill="white"
+          stroke="black"
+        />
+        {elements}
+      </svg>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          svgRef.current && downloadSvg(svgRef.current, 'nutrition-facts.svg')
+        }
+      >
+        <Download className="h-4 w-4 mr-2" />
+        Download SVG
+      </Button>
+    </div>
+  )
+}
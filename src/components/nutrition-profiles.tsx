@@ -0,0 +1,236 @@
+import { Plus, Trash2 } from 'lucide-react'
+import type { NutrientKey } from '@/lib/nutrients'
+import type { NutritionProfile } from '@/lib/profiles'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useLocalStorage } from '@/hooks/use-local-storage'
+import { NUTRIENTS } from '@/lib/nutrients'
+import { ACTIVITY_LEVELS, GOALS, getDailyTargets } from '@/lib/profiles'
+import { formatDecimal } from '@/lib/quantity'
+
+type NutritionProfilesProps = {
+  // Unrounded amount of a nutrient in one serving
+  getPerServing: (nutrient: NutrientKey) => number
+}
+
+const createProfile = (count: number): NutritionProfile => ({
+  id: crypto.randomUUID(),
+  name: `Profile ${count + 1}`,
+  age: '',
+  sex: 'female',
+  weight: '',
+  activity: 'light',
+  goal: 'maintain',
+})
+
+export default function NutritionProfiles({
+  getPerServing,
+}: NutritionProfilesProps) {
+  const [profiles, setProfiles] = useLocalStorage<Array<NutritionProfile>>(
+    'porzio:profiles',
+    [],
+  )
+  const [selectedId, setSelectedId] = useLocalStorage<string | null>(
+    'porzio:selected-profile',
+    null,
+  )
+
+  const profile =
+    profiles.find((candidate) => candidate.id === selectedId) ?? profiles.at(0)
+  const targets = profile ? getDailyTargets(profile) : null
+
+  const addProfile = () => {
+    const newProfile = createProfile(profiles.length)
+    setProfiles([...profiles, newProfile])
+    setSelectedId(newProfile.id)
+  }
+
+  const removeProfile = (id: string) => {
+    setProfiles(profiles.filter((candidate) => candidate.id !== id))
+    setSelectedId(null)
+  }
+
+  const updateProfile = (field: keyof NutritionProfile, value: string) => {
+    if (!profile) return
+    setProfiles(
+      profiles.map((candidate) =>
+        candidate.id === profile.id
+          ? { ...candidate, [field]: value }
+          : candidate,
+      ),
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {profile && (
+          <Select value={profile.id} onValueChange={setSelectedId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.name || 'Unnamed profile'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button variant="outline" size="sm" onClick={addProfile}>
+          <Plus className="h-4 w-4 mr-2" />
+          New profile
+        </Button>
+        {profile && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => removeProfile(profile.id)}
+          >
+            <Trash2 className="h-4 w-4 text-muted-foreground" />
+            <span className="sr-only">Remove profile</span>
+          </Button>
+        )}
+      </div>
+
+      {profile ? (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="profileName" className="mb-1">
+                Name
+              </Label>
+              <Input
+                id="profileName"
+                value={profile.name}
+                onChange={(e) => updateProfile('name', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="profileAge" className="mb-1">
+                Age
+              </Label>
+              <Input
+                id="profileAge"
+                type="number"
+                min="1"
+                value={profile.age}
+                onChange={(e) => updateProfile('age', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="profileWeight" className="mb-1">
+                Weight (kg)
+              </Label>
+              <Input
+                id="profileWeight"
+                type="number"
+                min="1"
+                value={profile.weight}
+                onChange={(e) => updateProfile('weight', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label className="mb-1">Sex</Label>
+              <Select
+                value={profile.sex}
+                onValueChange={(value) => updateProfile('sex', value)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="female">Female</SelectItem>
+                  <SelectItem value="male">Male</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-1">Activity</Label>
+              <Select
+                value={profile.activity}
+                onValueChange={(value) => updateProfile('activity', value)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTIVITY_LEVELS.map((level) => (
+                    <SelectItem key={level.value} value={level.value}>
+                      {level.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-1">Goal</Label>
+              <Select
+                value={profile.goal}
+                onValueChange={(value) => updateProfile('goal', value)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GOALS.map((goal) => (
+                    <SelectItem key={goal.value} value={goal.value}>
+                      {goal.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {targets ? (
+            <div className="space-y-3">
+              {NUTRIENTS.filter((nutrient) => targets[nutrient.key]).map(
+                (nutrient) => {
+                  const target = targets[nutrient.key] ?? 0
+                  const perServing = getPerServing(nutrient.key)
+                  const percent = (perServing / target) * 100
+
+                  return (
+                    <div key={nutrient.key} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>{nutrient.label}</span>
+                        <span className="text-muted-foreground">
+                          {formatDecimal(perServing, 0)} of{' '}
+                          {formatDecimal(target, 0)} {nutrient.unit} (
+                          {formatDecimal(percent, 0)}%)
+                        </span>
+                      </div>
+                      <Progress value={Math.min(percent, 100)} />
+                    </div>
+                  )
+                },
+              )}
+              <p className="text-xs text-muted-foreground">
+                Share of the daily target in one serving of the adjusted recipe.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground italic">
+              Enter age and weight to see daily targets
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground italic">
+          Create a profile to compare servings with daily targets
+        </p>
+      )}
+    </div>
+  )
+}
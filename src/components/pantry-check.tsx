@@ -0,0 +1,129 @@
+import { Link } from '@tanstack/react-router'
+import { ChefHat } from 'lucide-react'
+import type { PantryItem, PantryStatus } from '@/lib/pantry'
+import type { Ingredient } from '@/lib/types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { deductFromPantry, getPantryAvailability } from '@/lib/pantry'
+import { formatDecimal } from '@/lib/quantity'
+import { formatUnit } from '@/lib/units'
+
+type PantryCheckProps = {
+  // Purchased amounts of the adjusted recipe in each row's unit
+  rows: Array<{ ingredient: Ingredient; quantity: number }>
+  pantry: Array<PantryItem>
+  onPantryChange: (pantry: Array<PantryItem>) => void
+}
+
+const STATUS_BADGES: Record<
+  PantryStatus,
+  { label: string; className: string }
+> = {
+  'in-stock': {
+    label: 'In stock',
+    className: 'border-green-600 text-green-700',
+  },
+  partial: {
+    label: 'Partial',
+    className: 'border-amber-500 text-amber-700',
+  },
+  missing: {
+    label: 'Missing',
+    className: 'border-destructive text-destructive',
+  },
+}
+
+const formatAmount = (value: number, unit: string) =>
+  `${formatDecimal(Math.round(value * 100) / 100)} ${formatUnit(unit, value)}`
+
+export default function PantryCheck({
+  rows,
+  pantry,
+  onPantryChange,
+}: PantryCheckProps) {
+  const availability = rows.map((row) =>
+    getPantryAvailability(row.quantity, row.ingredient, pantry),
+  )
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Ingredient</TableHead>
+            <TableHead className="text-right">Needed</TableHead>
+            <TableHead className="text-right">At home</TableHead>
+            <TableHead className="text-right">Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={4}
+                className="text-center text-muted-foreground py-8"
+              >
+                Add ingredients with quantities to check them against the pantry
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map(({ ingredient, quantity }, index) => {
+              const { status, available, items } = availability[index]
+
+              return (
+                <TableRow key={index}>
+                  <TableCell>{ingredient.name}</TableCell>
+                  <TableCell className="text-right">
+                    {formatAmount(quantity, ingredient.unit)}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {items.length === 0
+                      ? '–'
+                      : available === null
+                        ? items
+                            .map((item) => `${item.quantity} ${item.unit}`)
+                            .join(', ')
+                        : formatAmount(available, ingredient.unit)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge
+                      variant="outline"
+                      className={STATUS_BADGES[status].className}
+                    >
+                      {STATUS_BADGES[status].label}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              )
+            })
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button variant="link" size="sm" className="px-0" asChild>
+          <Link to="/pantry">Manage pantry</Link>
+        </Button>
+        <Button
+          disabled={!availability.some(({ items }) => items.length > 0)}
+          onClick={() => onPantryChange(deductFromPantry(pantry, rows))}
+        >
+          <ChefHat className="h-4 w-4 mr-2" />
+          Cooked it
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Cooking takes the needed amounts out of the pantry, soonest expiring
+        items first. Items whose unit cannot be converted are left as they are.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+import { Link } from '@tanstack/react-router'
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react'
+import type { PantryItem } from '@/lib/pantry'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useLocalStorage } from '@/hooks/use-local-storage'
+import { EXPIRY_WARNING_DAYS, getDaysToExpiry } from '@/lib/pantry'
+
+const createPantryItem = (): PantryItem => ({
+  id: crypto.randomUUID(),
+  name: '',
+  quantity: '',
+  unit: '',
+  expires: '',
+})
+
+export default function Pantry() {
+  const [items, setItems] = useLocalStorage<Array<PantryItem>>(
+    'porzio:pantry',
+    [],
+  )
+
+  const updateItem = (id: string, field: keyof PantryItem, value: string) =>
+    setItems(
+      items.map((item) =>
+        item.id === id ? { ...item, [field]: value } : item,
+      ),
+    )
+
+  const renderExpiry = (item: PantryItem) => {
+    const days = getDaysToExpiry(item)
+    if (days === null || days > EXPIRY_WARNING_DAYS) return null
+
+    return (
+      <Badge
+        variant="outline"
+        className={
+          days < 0
+            ? 'border-destructive text-destructive'
+            : 'border-amber-500 text-amber-700'
+        }
+      >
+        {days < 0 ? 'Expired' : days === 0 ? 'Today' : `${days}d left`}
+      </Badge>
+    )
+  }
+
+  return (
+    <div className="container max-w-4xl mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold text-center mb-8">Pantry</h1>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>At home</CardTitle>
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Calculator
+            </Link>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="w-28">Quantity</TableHead>
+                <TableHead className="w-24">Unit</TableHead>
+                <TableHead className="w-44">Expires</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={5}
+                    className="text-center text-muted-foreground py-8"
+                  >
+                    Add what you have at home to check recipes against it
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Input
+                        placeholder="e.g. Flour"
+                        value={item.name}
+                        onChange={(e) =>
+                          updateItem(item.id, 'name', e.target.value)
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        placeholder="1"
+                        value={item.quantity}
+                        onChange={(e) =>
+                          updateItem(item.id, 'quantity', e.target.value)
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        placeholder="kg"
+                        value={item.unit}
+                        onChange={(e) =>
+                          updateItem(item.id, 'unit', e.target.value)
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="date"
+                          value={item.expires}
+                          onChange={(e) =>
+                            updateItem(item.id, 'expires', e.target.value)
+                          }
+                        />
+                        {renderExpiry(item)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setItems(
+                            items.filter(
+                              (candidate) => candidate.id !== item.id,
+                            ),
+                          )
+                        }
+                      >
+                        <Trash2 className="h-4 w-4 text-muted-foreground" />
+                        <span className="sr-only">Remove item</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          <Button
+            variant="outline"
+            className="mt-4"
+            onClick={() => setItems([...items, createPantryItem()])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,5 +1,22 @@
 import { useEffect, useState } from 'react'
-import { Loader2, Plus, Search, Trash2 } from 'lucide-react'
+import {
+  ChevronDown,
+  Loader2,
+  Pin,
+  PinOff,
+  Plus,
+  Search,
+  Trash2,
+} from 'lucide-react'
+import type { CookedYield } from '@/components/cooked-yield'
+import type { AllergenId, AllergenStatus } from '@/lib/allergens'
+import type { EnergySourceKey, EnergyUnit } from '@/lib/energy'
+import type { NutrientDefinition, NutrientKey } from '@/lib/nutrients'
+import type { RoundingMode } from '@/lib/quantity'
+import type { PantryItem } from '@/lib/pantry'
+import type { SavedRecipe } from '@/lib/recipes'
+import type { ScalingPolicy } from '@/lib/scaling'
+import type { Ingredient, NutritionData } from '@/lib/types'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Slider } from '@/components/ui/slider'
@@ -20,30 +37,92 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import CookedYieldEditor from '@/components/cooked-yield'
+import DietChecks from '@/components/diet-checks'
+import EuNutritionLabel from '@/components/eu-nutrition-label'
+import MacroOptimizer from '@/components/macro-optimizer'
+import NutritionLabel from '@/components/nutrition-label'
+import NutritionProfiles from '@/components/nutrition-profiles'
+import CookableRecipes from '@/components/cookable-recipes'
+import PantryCheck from '@/components/pantry-check'
+import RecipeLibrary from '@/components/recipe-library'
+import ShoppingList from '@/components/shopping-list'
 import { useDebounce } from '@/hooks/use-debounce'
-
-// Types for our application
-type Ingredient = {
-  id?: string
-  name: string
-  quantity: string
-  unit: string
-  calories: string
-  protein: string
-  carbs: string
-  fat: string
-  searchQuery?: string
-}
-
-type NutritionData = {
-  name: string
-  calories: number
-  protein: number
-  carbs: number
-  fat: number
-  servingSize: number
-  servingUnit: string
-}
+import { useLocalStorage } from '@/hooks/use-local-storage'
+import {
+  ALLERGENS,
+  formatContainsStatement,
+  getAllergen,
+  getIngredientAllergens,
+  getRecipeAllergens,
+  toAllergenOverrides,
+} from '@/lib/allergens'
+import {
+  getBakersPercentage,
+  getDoughWeight,
+  getFlourWeight,
+  getHydration,
+  getSaltPercentage,
+  quantityFromPercentage,
+} from '@/lib/bakers'
+import { CURRENCIES, formatCost, getLineCost } from '@/lib/cost'
+import { findFoodDensity, toGrams } from '@/lib/density'
+import { classifyRecipe, formatDietReason } from '@/lib/diets'
+import {
+  ENERGY_TOLERANCE,
+  getEnergyBreakdown,
+  getEnergyDiscrepancy,
+  toEnergyUnit,
+} from '@/lib/energy'
+import {
+  findEdiblePortion,
+  toEdibleQuantity,
+  toPurchasedQuantity,
+} from '@/lib/edible'
+import { STANDARD_SERVING, getNutritionAmount } from '@/lib/nutrition'
+import {
+  EXTENDED_NUTRIENTS,
+  NUTRIENTS,
+  getExtendedNutrientFields,
+  getNutrientDepth,
+} from '@/lib/nutrients'
+import { toShoppingList } from '@/lib/shopping'
+import {
+  ROUNDING_TOLERANCE,
+  formatDecimal,
+  parseQuantity,
+  roundCount,
+  roundQuantity,
+} from '@/lib/quantity'
+import {
+  LEAVENING_WARNING_RATIO,
+  SCALING_POLICIES,
+  findLimitingIngredient,
+  findPackagePortions,
+  getAvailableRatio,
+  getScaleFactor,
+  isLeavening,
+  resolveScalingPolicy,
+  solvePortionsForTarget,
+} from '@/lib/scaling'
+import { UNITS, findUnit, formatUnit, toReadableUnit } from '@/lib/units'
+import { getYieldFactor } from '@/lib/yield'
 
 export default function PortionCalculator() {
   const [ingredients, setIngredients] = useState<Ingredient[]>([
@@ -59,6 +138,38 @@ export default function PortionCalculator() {
   ])
   const [originalPortions, setOriginalPortions] = useState(4)
   const [desiredPortions, setDesiredPortions] = useState(4)
+  const [roundingMode, setRoundingMode] = useState<RoundingMode>('kitchen')
+  const [scaleMode, setScaleMode] = useState<
+    'portions' | 'ingredient' | 'target' | 'dough' | 'packages'
+  >('portions')
+  const [bakersMode, setBakersMode] = useState(false)
+  const [doughTarget, setDoughTarget] = useState({
+    weight: '',
+    pieces: '',
+    pieceWeight: '',
+  })
+  const [cookedYield, setCookedYield] = useState<CookedYield>({
+    factor: '',
+    finalWeight: '',
+  })
+  const [nutritionTarget, setNutritionTarget] = useState<{
+    nutrient: 'calories' | 'protein' | 'carbs' | 'fat'
+    value: string
+  }>({ nutrient: 'calories', value: '' })
+  const [currency, setCurrency] = useLocalStorage('porzio:currency', 'USD')
+  const [recipeName, setRecipeName] = useState('')
+  const [recipes, setRecipes] = useLocalStorage<Array<SavedRecipe>>(
+    'porzio:recipes',
+    [],
+  )
+  const [pantry, setPantry] = useLocalStorage<Array<PantryItem>>(
+    'porzio:pantry',
+    [],
+  )
+  const [energyUnit, setEnergyUnit] = useState<EnergyUnit>('kcal')
+  const [unitSystem, setUnitSystem] = useState<
+    'original' | 'metric' | 'imperial'
+  >('original')
   const [searchQuery, setSearchQuery] = useState('')
   const [searchResults, setSearchResults] = useState<NutritionData[]>([])
   const [isSearching, setIsSearching] = useState(false)
@@ -85,8 +196,16 @@ export default function PortionCalculator() {
         protein: 31,
         carbs: 0,
         fat: 3.6,
+        saturatedFat: 1,
+        cholesterol: 85,
+        sodium: 74,
+        potassium: 256,
+        calcium: 15,
+        iron: 1,
+        vitaminA: 9,
         servingSize: 100,
         servingUnit: 'g',
+        categories: ['poultry'],
       },
       {
         name: `${query} - Brown Rice`,
@@ -94,8 +213,17 @@ export default function PortionCalculator() {
         protein: 2.6,
         carbs: 23.5,
         fat: 0.9,
+        fiber: 1.8,
+        sugars: 0.4,
+        saturatedFat: 0.2,
+        sodium: 5,
+        potassium: 86,
+        calcium: 10,
+        iron: 0.5,
         servingSize: 100,
         servingUnit: 'g',
+        gramsPerCup: 195,
+        categories: ['grain'],
       },
       {
         name: `${query} - Avocado`,
@@ -103,8 +231,19 @@ export default function PortionCalculator() {
         protein: 2,
         carbs: 8.5,
         fat: 14.7,
+        fiber: 6.7,
+        sugars: 0.7,
+        saturatedFat: 2.1,
+        sodium: 7,
+        potassium: 485,
+        calcium: 12,
+        iron: 0.6,
+        vitaminA: 7,
+        vitaminC: 10,
         servingSize: 100,
         servingUnit: 'g',
+        ediblePortion: 74,
+        categories: ['fruit'],
       },
     ]
 
@@ -147,10 +286,17 @@ export default function PortionCalculator() {
     setIngredients(newIngredients)
   }
 
-  const updateIngredient = (index: number, field: string, value: string) => {
-    const newIngredients = [...ingredients]
-    newIngredients[index] = { ...newIngredients[index], [field]: value }
-    setIngredients(newIngredients)
+  const updateIngredient = (
+    index: number,
+    field: string,
+    value: Ingredient[keyof Ingredient],
+  ) => {
+    // Functional update so that several rows can be written in one go
+    setIngredients((current) => {
+      const newIngredients = [...current]
+      newIngredients[index] = { ...newIngredients[index], [field]: value }
+      return newIngredients
+    })
   }
 
   const selectIngredientFromSearch = (nutritionData: NutritionData) => {
@@ -164,6 +310,15 @@ export default function PortionCalculator() {
         protein: nutritionData.protein.toString(),
         carbs: nutritionData.carbs.toString(),
         fat: nutritionData.fat.toString(),
+        ...getExtendedNutrientFields(nutritionData),
+        density: nutritionData.density?.toString(),
+        gramsPerCup: nutritionData.gramsPerCup?.toString(),
+        ediblePortion: nutritionData.ediblePortion?.toString(),
+        allergens: toAllergenOverrides(nutritionData.allergens),
+        categories: nutritionData.categories,
+        price: nutritionData.price?.toString(),
+        packageSize: nutritionData.packageSize?.toString(),
+        packageUnit: nutritionData.packageUnit,
       }
       setIngredients(newIngredients)
       setIsDialogOpen(false)
@@ -171,45 +326,575 @@ export default function PortionCalculator() {
     }
   }
 
+  const loadRecipe = (recipe: SavedRecipe, portions = recipe.portions) => {
+    setRecipeName(recipe.name)
+    setIngredients(recipe.ingredients)
+    setOriginalPortions(recipe.portions)
+    setDesiredPortions(portions)
+    setScaleMode('portions')
+  }
+
   const openSearchDialog = (index: number) => {
     setSelectedIngredientIndex(index)
     setIsDialogOpen(true)
   }
 
-  const calculateAdjustedValue = (value: string) => {
-    if (!value) return ''
-    const numericValue = Number.parseFloat(value)
-    if (isNaN(numericValue)) return value
-
-    const ratio = desiredPortions / originalPortions
-    const adjusted = numericValue * ratio
-
-    // Format to at most 2 decimal places, but avoid trailing zeros
-    return adjusted
-      .toLocaleString('en-US', {
-        maximumFractionDigits: 2,
-        useGrouping: false,
-      })
-      .replace(/\.0+$/, '')
+  // Clicking an allergen confirms a detection, dismisses a confirmed one and
+  // restores a dismissed one
+  const cycleAllergen = (
+    index: number,
+    id: AllergenId,
+    status: AllergenStatus,
+  ) => {
+    const overrides = { ...ingredients[index].allergens }
+    if (status === 'detected') overrides[id] = true
+    else if (status === 'confirmed') overrides[id] = false
+    else delete overrides[id]
+    updateIngredient(index, 'allergens', overrides)
+  }
+
+  const addAllergen = (index: number, id: AllergenId) =>
+    updateIngredient(index, 'allergens', {
+      ...ingredients[index].allergens,
+      [id]: true,
+    })
+
+  const dietTags = ingredients.some((ingredient) => ingredient.name.trim())
+    ? classifyRecipe(ingredients)
+    : []
+
+  const recipeAllergens = getRecipeAllergens(
+    ingredients.filter((ingredient) => ingredient.name),
+  )
+
+  const getScalingPolicy = (ingredient: Ingredient) =>
+    resolveScalingPolicy(ingredient)
+
+  // To-taste rows are listed even without a quantity
+  const isListedIngredient = (ingredient: Ingredient) =>
+    !!ingredient.name &&
+    (!!ingredient.quantity || getScalingPolicy(ingredient) === 'to-taste')
+
+  // Scaling by ingredient amounts derives the ratio from the most
+  // constraining "use up to" limit instead of the desired portions
+  const limitingIngredient =
+    scaleMode === 'ingredient' ? findLimitingIngredient(ingredients) : null
+  // Dough is scaled to a target weight, either given directly or as a
+  // number of pieces of a given weight
+  const doughWeight = getDoughWeight(ingredients)
+  const doughPieces = Number.parseInt(doughTarget.pieces)
+  const targetDoughWeight =
+    doughPieces > 0
+      ? doughPieces * Number.parseFloat(doughTarget.pieceWeight)
+      : Number.parseFloat(doughTarget.weight)
+  const doughRatio =
+    scaleMode === 'dough' && doughWeight && targetDoughWeight > 0
+      ? targetDoughWeight / doughWeight
+      : null
+
+  // A nutrition target keeps the batch as written and divides it instead
+  const scaleRatio =
+    scaleMode === 'target'
+      ? 1
+      : (doughRatio ??
+        limitingIngredient?.ratio ??
+        desiredPortions / originalPortions)
+
+  // A baker's formula keeps its percentages, so dough scaling is linear for
+  // every row the cook has not set a policy for explicitly
+  const calculateScaleFactor = (ingredient: Ingredient, ratio = scaleRatio) =>
+    getScaleFactor(
+      doughRatio && ingredient.policy === undefined
+        ? 'linear'
+        : getScalingPolicy(ingredient),
+      ratio,
+    )
+
+  const calculateAdjustedValue = (ingredient: Ingredient) => {
+    const { unit, pinUnit } = ingredient
+    const numericValue = parseQuantity(ingredient.quantity)
+    if (numericValue === null) return null
+
+    // The shopping amount is always the purchased weight
+    const adjusted =
+      toPurchasedQuantity(numericValue, ingredient) *
+      calculateScaleFactor(ingredient)
+
+    // Re-express the scaled amount in the most readable unit unless the row
+    // is pinned to the unit it was written in
+    const readable = pinUnit
+      ? { value: adjusted, unit }
+      : toReadableUnit(
+          adjusted,
+          unit,
+          unitSystem === 'original' ? undefined : unitSystem,
+        )
+
+    return {
+      ...roundQuantity(readable.value, readable.unit, roundingMode),
+      unit: readable.unit,
+    }
+  }
+
+  // Counted items are cooked in whole or half units, so their scaled amount
+  // is snapped before it feeds the nutrition totals
+  const calculateScaledQuantity = (
+    quantity: number,
+    ingredient: Ingredient,
+    ratio = scaleRatio,
+  ) => {
+    const scaled = quantity * calculateScaleFactor(ingredient, ratio)
+    const definition = findUnit(ingredient.unit)
+    return definition?.dimension === 'count'
+      ? roundCount(scaled, definition.countStep).value
+      : scaled
+  }
+
+  // Amount of a nutrient in one row, or 0 when the row lacks the data. The
+  // adjusted amount is scaled by the current ratio unless another is given.
+  const calculateIngredientNutrition = (
+    ingredient: Ingredient,
+    nutrient: NutrientKey,
+    forAdjusted = false,
+    ratio = scaleRatio,
+  ) => {
+    const value = ingredient[nutrient]
+    if (!value || !ingredient.quantity) return 0
+
+    const nutrientValue = Number.parseFloat(value)
+    const quantity = parseQuantity(ingredient.quantity)
+
+    if (isNaN(nutrientValue) || quantity === null) return 0
+
+    const scaledQuantity = forAdjusted
+      ? calculateScaledQuantity(quantity, ingredient, ratio)
+      : quantity
+
+    // Only the edible share of the purchased weight is eaten
+    const amount = getNutritionAmount(
+      toEdibleQuantity(scaledQuantity, ingredient),
+      ingredient,
+    )
+    if (amount === null) return 0
+
+    // Calculate based on the converted quantity relative to 100g/ml standard
+    return (nutrientValue * amount) / STANDARD_SERVING
   }
 
   const calculateTotalNutrition = (
-    nutrient: keyof Ingredient,
+    nutrient: NutrientKey,
     forAdjusted = false,
   ) => {
-    return ingredients.reduce((total, ingredient) => {
-      if (!ingredient[nutrient] || !ingredient.quantity) return total
+    return ingredients.reduce(
+      (total, ingredient) =>
+        total + calculateIngredientNutrition(ingredient, nutrient, forAdjusted),
+      0,
+    )
+  }
+
+  const targetSolution =
+    scaleMode === 'target'
+      ? solvePortionsForTarget(
+          calculateTotalNutrition(nutritionTarget.nutrient),
+          Number.parseFloat(nutritionTarget.value),
+        )
+      : null
+  const adjustedPortions =
+    targetSolution?.portions ??
+    (doughRatio && doughPieces > 0
+      ? doughPieces
+      : originalPortions * scaleRatio)
+
+  // Nothing on hand of a limiting row leaves an empty batch, which has no
+  // per-serving amounts to speak of
+  const perPortion = (value: number, portions: number) =>
+    portions > 0 ? value / portions : 0
+
+  // Portion counts that use up whole packages of the packaged rows, to be
+  // applied to the desired portions
+  const packagedIngredients = ingredients.flatMap((ingredient, index) =>
+    ingredient.name && parseQuantity(ingredient.packageSize ?? '')
+      ? [{ ingredient, index }]
+      : [],
+  )
+  const packagePortions =
+    scaleMode === 'packages'
+      ? findPackagePortions(ingredients, originalPortions, desiredPortions)
+      : []
+
+  // Per-serving macros when the recipe is scaled to another portion count,
+  // with counted items snapped as in the adjusted recipe
+  const calculatePerServingAt = (
+    nutrient: 'calories' | 'protein' | 'carbs' | 'fat',
+    portions: number,
+  ) =>
+    ingredients.reduce(
+      (total, ingredient) =>
+        total +
+        calculateIngredientNutrition(
+          ingredient,
+          nutrient,
+          true,
+          portions / originalPortions,
+        ),
+      0,
+    ) / portions
+
+  const flourWeight = getFlourWeight(ingredients)
 
-      const nutrientValue = Number.parseFloat(ingredient[nutrient] as string)
-      const quantity = Number.parseFloat(ingredient.quantity)
+  // Typing a percentage rewrites the quantity from the flour weight; the
+  // typed text is kept until the field loses focus
+  const updateBakersPercentage = (index: number, value: string) => {
+    updateIngredient(index, 'bakersPercent', value)
 
-      if (isNaN(nutrientValue) || isNaN(quantity)) return total
+    const percentage = Number.parseFloat(value)
+    if (isNaN(percentage)) return
+
+    const quantity = quantityFromPercentage(
+      percentage,
+      flourWeight,
+      ingredients[index],
+    )
+    if (quantity !== null) {
+      updateIngredient(index, 'quantity', formatDecimal(quantity))
+    }
+  }
 
-      // Calculate based on the entered quantity relative to 100g/ml standard
-      const standardServing = 100
-      const ratio = forAdjusted ? desiredPortions / originalPortions : 1
-      return total + ((nutrientValue * quantity) / standardServing) * ratio
+  const formatBakersPercentage = (ingredient: Ingredient) => {
+    const percentage = getBakersPercentage(ingredient, flourWeight)
+    return percentage === null ? '' : formatDecimal(percentage, 1)
+  }
+
+  // Edible weight of the whole batch, raw or through each row's yield
+  // factor, or null when a row cannot be weighed
+  const calculateTotalWeight = (forAdjusted = false, cooked = false) =>
+    ingredients.reduce<number | null>((total, ingredient) => {
+      if (total === null || !ingredient.quantity) return total
+
+      const quantity = parseQuantity(ingredient.quantity)
+      if (quantity === null) return null
+
+      const grams = toGrams(
+        toEdibleQuantity(
+          forAdjusted
+            ? calculateScaledQuantity(quantity, ingredient)
+            : quantity,
+          ingredient,
+        ),
+        ingredient,
+      )
+      if (grams === null) return null
+      return total + (cooked ? grams * getYieldFactor(ingredient) : grams)
     }, 0)
+
+  // Finished weight of the dish. A measured weight wins; otherwise the
+  // ingredient yields are combined with the recipe-wide factor.
+  const calculateCookedWeight = (forAdjusted = false) => {
+    const measured = Number.parseFloat(cookedYield.finalWeight)
+    if (measured > 0) return forAdjusted ? measured * scaleRatio : measured
+
+    const cookedWeight = calculateTotalWeight(forAdjusted, true)
+    const recipeFactor = Number.parseFloat(cookedYield.factor)
+    return cookedWeight !== null && recipeFactor > 0
+      ? cookedWeight * recipeFactor
+      : cookedWeight
+  }
+
+  const formatPer100gCooked = (total: number, forAdjusted = false) => {
+    const cookedWeight = calculateCookedWeight(forAdjusted)
+    return cookedWeight
+      ? formatNutritionValue((total / cookedWeight) * STANDARD_SERVING)
+      : '-'
+  }
+
+  // Core nutrients are always listed, the others once a row carries them
+  const visibleNutrients = NUTRIENTS.filter(
+    (nutrient) =>
+      nutrient.core ||
+      ingredients.some((ingredient) => ingredient[nutrient.key]),
+  )
+
+  const countExtendedNutrients = (ingredient: Ingredient) =>
+    EXTENDED_NUTRIENTS.filter((nutrient) => ingredient[nutrient.key]).length
+
+  // Energy follows the kJ/kcal toggle; kcal is shown without a unit
+  const formatNutrientUnit = (nutrient: NutrientDefinition) =>
+    nutrient.unit !== 'kcal' ? nutrient.unit : energyUnit === 'kJ' ? ' kJ' : ''
+
+  const renderNutritionRows = (forAdjusted = false) =>
+    visibleNutrients.map((nutrient) => {
+      const amount = calculateTotalNutrition(nutrient.key, forAdjusted)
+      const total =
+        nutrient.unit === 'kcal' ? toEnergyUnit(amount, energyUnit) : amount
+      const portions = forAdjusted ? adjustedPortions : originalPortions
+      const per100gCooked = formatPer100gCooked(total, forAdjusted)
+      const unit = formatNutrientUnit(nutrient)
+
+      return (
+        <TableRow key={nutrient.key}>
+          <TableCell
+            className={nutrient.parent ? 'text-muted-foreground' : undefined}
+            style={{ paddingLeft: `${0.5 + getNutrientDepth(nutrient)}rem` }}
+          >
+            {nutrient.label}
+          </TableCell>
+          <TableCell className="text-right">
+            {formatNutritionValue(total)}
+            {unit}
+          </TableCell>
+          <TableCell className="text-right">
+            {formatNutritionValue(perPortion(total, portions))}
+            {unit}
+          </TableCell>
+          <TableCell className="text-right">
+            {per100gCooked}
+            {per100gCooked === '-' ? '' : unit}
+          </TableCell>
+        </TableRow>
+      )
+    })
+
+  // Cost of the purchased amount of a row, or null without a price
+  const calculateIngredientCost = (
+    ingredient: Ingredient,
+    forAdjusted = false,
+  ) => {
+    const quantity = parseQuantity(ingredient.quantity)
+    if (quantity === null) return null
+
+    return getLineCost(
+      toPurchasedQuantity(
+        forAdjusted ? calculateScaledQuantity(quantity, ingredient) : quantity,
+        ingredient,
+      ),
+      ingredient,
+    )
+  }
+
+  const pricedIngredients = ingredients.filter(
+    (ingredient) => calculateIngredientCost(ingredient) !== null,
+  )
+  const unpricedCount = ingredients.filter(
+    (ingredient) =>
+      ingredient.name &&
+      ingredient.quantity &&
+      calculateIngredientCost(ingredient) === null,
+  ).length
+
+  const calculateTotalCost = (forAdjusted = false) =>
+    pricedIngredients.reduce(
+      (total, ingredient) =>
+        total + (calculateIngredientCost(ingredient, forAdjusted) ?? 0),
+      0,
+    )
+
+  const renderCostRow = (forAdjusted = false) => {
+    if (pricedIngredients.length === 0) return null
+
+    const total = calculateTotalCost(forAdjusted)
+    const portions = forAdjusted ? adjustedPortions : originalPortions
+    const cookedWeight = calculateCookedWeight(forAdjusted)
+
+    return (
+      <TableRow className="border-t-2">
+        <TableCell>Cost</TableCell>
+        <TableCell className="text-right">
+          {formatCost(total, currency)}
+        </TableCell>
+        <TableCell className="text-right">
+          {formatCost(perPortion(total, portions), currency)}
+        </TableCell>
+        <TableCell className="text-right">
+          {cookedWeight
+            ? formatCost((total / cookedWeight) * STANDARD_SERVING, currency)
+            : '-'}
+        </TableCell>
+      </TableRow>
+    )
+  }
+
+  // Purchased amounts of the adjusted recipe; to-taste rows are left to the
+  // pantry
+  const purchasedIngredients = ingredients.flatMap((ingredient) => {
+    const quantity = parseQuantity(ingredient.quantity)
+    if (!ingredient.name.trim() || quantity === null) return []
+
+    return [
+      {
+        ingredient,
+        quantity: toPurchasedQuantity(
+          calculateScaledQuantity(quantity, ingredient),
+          ingredient,
+        ),
+      },
+    ]
+  })
+  const shoppingItems = toShoppingList(
+    purchasedIngredients,
+    unitSystem === 'original' ? undefined : unitSystem,
+  )
+
+  // The label describes the adjusted batch split into the desired portions
+  const adjustedCookedWeight = calculateCookedWeight(true)
+
+  const energyBreakdown = getEnergyBreakdown((nutrient) =>
+    calculateTotalNutrition(nutrient, true),
+  )
+
+  const getEnergyBadgeClass = (source: EnergySourceKey) => {
+    switch (source) {
+      case 'protein':
+        return 'bg-primary text-primary-foreground'
+      case 'carbs':
+        return 'bg-secondary text-secondary-foreground'
+      case 'fat':
+        return 'bg-accent text-accent-foreground'
+      default:
+        return 'border-border bg-transparent text-foreground'
+    }
+  }
+
+  const getUnitWarning = (ingredient: Ingredient) => {
+    if (!ingredient.quantity) return null
+
+    const unit = findUnit(ingredient.unit)
+    if (!unit) {
+      return ingredient.unit.trim()
+        ? `Unknown unit "${ingredient.unit}" - this ingredient is left out of the nutrition totals.`
+        : 'Enter a unit - this ingredient is left out of the nutrition totals.'
+    }
+    if (
+      unit.dimension === 'count' &&
+      !unit.typicalGrams &&
+      !(Number.parseFloat(ingredient.gramsPerItem ?? '') > 0)
+    ) {
+      return 'Enter the weight of one item - this ingredient is left out of the nutrition totals.'
+    }
+    return null
+  }
+
+  // Shows the other side of the trim, e.g. "buy ≈ 1.4 kg" for an edible
+  // weight or "≈ 450 g edible" for a whole fish
+  const renderTrimNote = (ingredient: Ingredient) => {
+    const quantity = parseQuantity(ingredient.quantity)
+    if (quantity === null) return null
+
+    const edible = toEdibleQuantity(quantity, ingredient)
+    const purchased = toPurchasedQuantity(quantity, ingredient)
+    if (edible === purchased) return null
+
+    return (
+      <span className="italic">
+        {ingredient.weightBasis === 'edible'
+          ? `buy ≈ ${formatDecimal(purchased)} ${formatUnit(ingredient.unit, purchased)}`
+          : `≈ ${formatDecimal(edible)} ${formatUnit(ingredient.unit, edible)} edible`}
+      </span>
+    )
+  }
+
+  const getDensityNote = (ingredient: Ingredient) => {
+    if (ingredient.density || ingredient.gramsPerCup) return null
+
+    const food = findFoodDensity(ingredient.name)
+    return food
+      ? `Using ${food.name.toLowerCase()} (${food.gramsPerCup} g per cup)`
+      : 'No density known - nutrition values are read per 100 ml'
+  }
+
+  // Gram equivalent shown next to scaled volumes
+  const calculateAdjustedGrams = (ingredient: Ingredient) => {
+    const quantity = parseQuantity(ingredient.quantity)
+    if (
+      quantity === null ||
+      findUnit(ingredient.unit)?.dimension !== 'volume'
+    ) {
+      return null
+    }
+
+    return toGrams(
+      toPurchasedQuantity(quantity, ingredient) *
+        calculateScaleFactor(ingredient),
+      ingredient,
+    )
+  }
+
+  const renderAdjustedQuantity = (ingredient: Ingredient) => {
+    if (!ingredient.quantity) return 'to taste'
+
+    const adjusted = calculateAdjustedValue(ingredient)
+    if (!adjusted) return `${ingredient.quantity} ${ingredient.unit}`
+
+    const grams = calculateAdjustedGrams(ingredient)
+    const quantityText = `${adjusted.text} ${formatUnit(adjusted.unit, adjusted.value)}`
+    // The adjusted amount is always purchased weight, so rows typed as edible
+    // weight say so instead of seeming to grow more than the scale
+    const basisText =
+      ingredient.weightBasis === 'edible' &&
+      toPurchasedQuantity(1, ingredient) !== 1
+        ? 'buy ≈ '
+        : ''
+
+    if (findUnit(adjusted.unit)?.dimension === 'count') {
+      const scaleFactor = calculateScaleFactor(ingredient)
+      const percent = Math.round(Math.abs(adjusted.error) * 100)
+
+      return (
+        <>
+          <span title={`Exact: ${formatDecimal(adjusted.exact)}`}>
+            {basisText}
+            {quantityText}
+          </span>
+          {percent > 0 && (
+            <div className="flex flex-col items-end gap-0.5 mt-1">
+              <Badge
+                variant="outline"
+                className="border-amber-500 text-amber-700"
+              >
+                {quantityText} ≈ {percent}%{' '}
+                {adjusted.error < 0 ? 'less' : 'more'} than exact
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                Effective scale ×
+                {formatDecimal(scaleFactor * (1 + adjusted.error))} instead of ×
+                {formatDecimal(scaleFactor)}
+              </span>
+            </div>
+          )}
+        </>
+      )
+    }
+
+    return (
+      <>
+        <span title={`Exact: ${formatDecimal(adjusted.exact)}`}>
+          {basisText}
+          {quantityText}
+        </span>
+        {Math.abs(adjusted.error) > ROUNDING_TOLERANCE && (
+          <span className="ml-1 text-xs text-amber-600">
+            ({adjusted.error > 0 ? '+' : ''}
+            {Math.round(adjusted.error * 100)}%)
+          </span>
+        )}
+        {grams !== null && (
+          <span className="ml-1 text-xs text-muted-foreground">
+            (≈ {formatNutritionValue(grams)} g)
+          </span>
+        )}
+      </>
+    )
+  }
+
+  const getLeaveningWarning = (ingredient: Ingredient) => {
+    if (
+      !isLeavening(ingredient.name) ||
+      (scaleRatio < LEAVENING_WARNING_RATIO &&
+        scaleRatio > 1 / LEAVENING_WARNING_RATIO)
+    ) {
+      return null
+    }
+
+    return `Leavening scaled ×${formatDecimal(calculateScaleFactor(ingredient))} - rise and bake time may change, test a small batch first`
   }
 
   const formatNutritionValue = (value: number) => {
@@ -218,15 +903,70 @@ export default function PortionCalculator() {
 
   return (
     <div className="container max-w-4xl mx-auto py-8 px-4">
-      <h1 className="text-3xl font-bold text-center mb-8">
+      <h1
+        className={`text-3xl font-bold text-center ${dietTags.length > 0 ? 'mb-3' : 'mb-8'}`}
+      >
         Advanced Portion Calculator
       </h1>
+      {dietTags.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 mb-8">
+          {dietTags.map((diet) => (
+            <Badge
+              key={diet.tag}
+              variant={diet.passes ? 'default' : 'outline'}
+              className={
+                diet.passes ? undefined : 'line-through text-muted-foreground'
+              }
+              title={diet.passes ? undefined : formatDietReason(diet)}
+            >
+              {diet.label}
+            </Badge>
+          ))}
+          {dietTags.some((diet) => !diet.passes) && (
+            <p className="w-full text-center text-xs text-muted-foreground">
+              {dietTags
+                .filter((diet) => !diet.passes)
+                .map(formatDietReason)
+                .join(' · ')}
+            </p>
+          )}
+        </div>
+      )}
 
       <div className="grid gap-8">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle>Recipe Library</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RecipeLibrary
+              name={recipeName}
+              onNameChange={setRecipeName}
+              recipes={recipes}
+              onRecipesChange={setRecipes}
+              ingredients={ingredients}
+              portions={originalPortions}
+              onLoad={loadRecipe}
+            />
+          </CardContent>
+        </Card>
+
         {/* Ingredient Input Area */}
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>Ingredients</CardTitle>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="bakersMode"
+                checked={bakersMode}
+                onCheckedChange={(checked) => {
+                  setBakersMode(checked)
+                  if (!checked && scaleMode === 'dough')
+                    setScaleMode('portions')
+                }}
+              />
+              <Label htmlFor="bakersMode">Baker's percentages</Label>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
@@ -267,7 +1007,10 @@ export default function PortionCalculator() {
                   <div className="col-span-2 sm:col-span-1">
                     <Input
                       placeholder="Unit"
+                      list="known-units"
                       value={ingredient.unit}
+                      aria-invalid={getUnitWarning(ingredient) !== null}
+                      title={getUnitWarning(ingredient) ?? undefined}
                       onChange={(e) =>
                         updateIngredient(index, 'unit', e.target.value)
                       }
@@ -309,6 +1052,33 @@ export default function PortionCalculator() {
                       }
                     />
                   </div>
+                  <div className="col-span-3 sm:col-span-2">
+                    <Select
+                      value={getScalingPolicy(ingredient)}
+                      onValueChange={(value) =>
+                        updateIngredient(
+                          index,
+                          'policy',
+                          value as ScalingPolicy,
+                        )
+                      }
+                    >
+                      <SelectTrigger className="w-full" title="Scaling">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SCALING_POLICIES.map((policy) => (
+                          <SelectItem
+                            key={policy.value}
+                            value={policy.value}
+                            title={policy.description}
+                          >
+                            {policy.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="col-span-1">
                     <Button
                       variant="ghost"
@@ -320,9 +1090,319 @@ export default function PortionCalculator() {
                       <span className="sr-only">Remove ingredient</span>
                     </Button>
                   </div>
+                  {findUnit(ingredient.unit)?.dimension === 'volume' && (
+                    <div className="col-span-12 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>Density</span>
+                      <Input
+                        className="h-7 w-20"
+                        placeholder="g/ml"
+                        value={ingredient.density ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(index, 'density', e.target.value)
+                        }
+                      />
+                      <span>g/ml or</span>
+                      <Input
+                        className="h-7 w-20"
+                        placeholder="g"
+                        value={ingredient.gramsPerCup ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(index, 'gramsPerCup', e.target.value)
+                        }
+                      />
+                      <span>g per cup</span>
+                      {getDensityNote(ingredient) && (
+                        <span className="italic">
+                          {getDensityNote(ingredient)}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {findUnit(ingredient.unit)?.dimension === 'count' && (
+                    <div className="col-span-12 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>Weight per {findUnit(ingredient.unit)?.label}</span>
+                      <Input
+                        className="h-7 w-20"
+                        placeholder={
+                          findUnit(ingredient.unit)?.typicalGrams?.toString() ??
+                          'g'
+                        }
+                        value={ingredient.gramsPerItem ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(
+                            index,
+                            'gramsPerItem',
+                            e.target.value,
+                          )
+                        }
+                      />
+                      <span>g</span>
+                    </div>
+                  )}
+                  {ingredient.name && (
+                    <div className="col-span-12 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>Edible portion</span>
+                      <Input
+                        className="h-7 w-20"
+                        placeholder={
+                          findEdiblePortion(
+                            ingredient.name,
+                          )?.percentage.toString() ?? '100'
+                        }
+                        value={ingredient.ediblePortion ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(
+                            index,
+                            'ediblePortion',
+                            e.target.value,
+                          )
+                        }
+                      />
+                      <span>% - amount is the</span>
+                      <Select
+                        value={ingredient.weightBasis ?? 'purchased'}
+                        onValueChange={(value) =>
+                          updateIngredient(index, 'weightBasis', value)
+                        }
+                      >
+                        <SelectTrigger className="h-7 w-28 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="purchased">purchased</SelectItem>
+                          <SelectItem value="edible">edible</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <span>weight</span>
+                      {renderTrimNote(ingredient)}
+                    </div>
+                  )}
+                  {ingredient.name && (
+                    <div className="col-span-12 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>Price</span>
+                      <Input
+                        className="h-7 w-20"
+                        placeholder={currency}
+                        value={ingredient.price ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(index, 'price', e.target.value)
+                        }
+                      />
+                      <span>per</span>
+                      <Input
+                        className="h-7 w-20"
+                        placeholder="Size"
+                        value={ingredient.packageSize ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(index, 'packageSize', e.target.value)
+                        }
+                      />
+                      <Input
+                        className="h-7 w-20"
+                        list="known-units"
+                        placeholder={ingredient.unit || 'Unit'}
+                        value={ingredient.packageUnit ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(index, 'packageUnit', e.target.value)
+                        }
+                      />
+                      {calculateIngredientCost(ingredient) !== null ? (
+                        <span>
+                          ={' '}
+                          {formatCost(
+                            calculateIngredientCost(ingredient) ?? 0,
+                            currency,
+                          )}
+                        </span>
+                      ) : (
+                        ingredient.price && (
+                          <span className="text-destructive">
+                            Cannot price this amount
+                          </span>
+                        )
+                      )}
+                    </div>
+                  )}
+                  {ingredient.name && (
+                    <div className="col-span-12 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>Allergens</span>
+                      {getIngredientAllergens(ingredient).map(
+                        ({ id, status }) => (
+                          <Badge
+                            key={id}
+                            asChild
+                            variant={
+                              status === 'confirmed' ? 'secondary' : 'outline'
+                            }
+                            className={
+                              status === 'detected'
+                                ? 'border-dashed'
+                                : status === 'dismissed'
+                                  ? 'line-through text-muted-foreground'
+                                  : undefined
+                            }
+                          >
+                            <button
+                              type="button"
+                              title={
+                                status === 'detected'
+                                  ? 'Detected from the name - click to confirm'
+                                  : status === 'confirmed'
+                                    ? 'Confirmed - click to dismiss'
+                                    : 'Dismissed - click to restore'
+                              }
+                              onClick={() => cycleAllergen(index, id, status)}
+                            >
+                              {getAllergen(id)?.label}
+                              {status === 'detected' && '?'}
+                            </button>
+                          </Badge>
+                        ),
+                      )}
+                      <Select
+                        value=""
+                        onValueChange={(value) =>
+                          addAllergen(index, value as AllergenId)
+                        }
+                      >
+                        <SelectTrigger className="h-7 w-32 text-xs">
+                          <SelectValue placeholder="Add allergen" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ALLERGENS.map((allergen) => (
+                            <SelectItem key={allergen.id} value={allergen.id}>
+                              {allergen.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {bakersMode && (
+                    <div className="col-span-12 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Checkbox
+                        id={`flour-${index}`}
+                        checked={!!ingredient.isFlour}
+                        onCheckedChange={(checked) =>
+                          updateIngredient(index, 'isFlour', checked === true)
+                        }
+                      />
+                      <Label htmlFor={`flour-${index}`} className="text-xs">
+                        Flour
+                      </Label>
+                      {ingredient.isFlour ? (
+                        <span>
+                          {formatBakersPercentage(ingredient)}% of flour
+                        </span>
+                      ) : (
+                        <>
+                          <Input
+                            className="h-7 w-20"
+                            placeholder="%"
+                            disabled={flourWeight <= 0}
+                            value={
+                              ingredient.bakersPercent ||
+                              formatBakersPercentage(ingredient)
+                            }
+                            onChange={(e) =>
+                              updateBakersPercentage(index, e.target.value)
+                            }
+                            onBlur={() =>
+                              updateIngredient(index, 'bakersPercent', '')
+                            }
+                          />
+                          <span>% of flour</span>
+                        </>
+                      )}
+                    </div>
+                  )}
+                  {scaleMode === 'ingredient' && (
+                    <div className="col-span-12 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>Use up to</span>
+                      <Input
+                        className="h-7 w-20"
+                        placeholder="Qty"
+                        value={ingredient.available ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(index, 'available', e.target.value)
+                        }
+                      />
+                      <Input
+                        className="h-7 w-20"
+                        list="known-units"
+                        placeholder={ingredient.unit || 'Unit'}
+                        value={ingredient.availableUnit ?? ''}
+                        onChange={(e) =>
+                          updateIngredient(
+                            index,
+                            'availableUnit',
+                            e.target.value,
+                          )
+                        }
+                      />
+                      {limitingIngredient?.index === index && (
+                        <Badge variant="secondary">Limits the batch</Badge>
+                      )}
+                      {ingredient.available &&
+                        getAvailableRatio(ingredient) === null && (
+                          <span className="text-destructive">
+                            Cannot compare with the recipe amount
+                          </span>
+                        )}
+                    </div>
+                  )}
+                  <Collapsible className="col-span-12">
+                    <CollapsibleTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs text-muted-foreground"
+                      >
+                        <ChevronDown className="h-3 w-3" />
+                        More nutrients
+                        {countExtendedNutrients(ingredient) > 0 && (
+                          <span>({countExtendedNutrients(ingredient)})</span>
+                        )}
+                      </Button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="grid grid-cols-2 sm:grid-cols-4 gap-2 pt-2 text-xs text-muted-foreground">
+                      {EXTENDED_NUTRIENTS.map((nutrient) => (
+                        <label
+                          key={nutrient.key}
+                          className="flex items-center justify-between gap-2"
+                        >
+                          <span>
+                            {nutrient.label} ({nutrient.unit})
+                          </span>
+                          <Input
+                            className="h-7 w-20"
+                            placeholder="per 100"
+                            value={ingredient[nutrient.key] ?? ''}
+                            onChange={(e) =>
+                              updateIngredient(
+                                index,
+                                nutrient.key,
+                                e.target.value,
+                              )
+                            }
+                          />
+                        </label>
+                      ))}
+                    </CollapsibleContent>
+                  </Collapsible>
+                  {getUnitWarning(ingredient) && (
+                    <p className="col-span-12 text-xs text-destructive">
+                      {getUnitWarning(ingredient)}
+                    </p>
+                  )}
                 </div>
               ))}
             </div>
+            <datalist id="known-units">
+              {UNITS.map((unit) => (
+                <option key={unit.id} value={unit.label} />
+              ))}
+            </datalist>
             <Button
               variant="outline"
               className="mt-4 flex items-center gap-1"
@@ -331,6 +1411,30 @@ export default function PortionCalculator() {
               <Plus className="h-4 w-4" />
               Add Ingredient
             </Button>
+            {recipeAllergens.length > 0 && (
+              <div className="mt-4 pt-4 border-t flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">Contains</span>
+                {recipeAllergens.map((allergen) => (
+                  <Badge
+                    key={allergen.id}
+                    variant={allergen.confirmed ? 'destructive' : 'outline'}
+                    className={
+                      allergen.confirmed
+                        ? undefined
+                        : 'border-amber-500 text-amber-700'
+                    }
+                    title={`${allergen.sources.join(', ')}${
+                      allergen.confirmed
+                        ? ''
+                        : ' - detected from the name, confirm on the row'
+                    }`}
+                  >
+                    {allergen.label}
+                    {!allergen.confirmed && '?'}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -361,66 +1465,420 @@ export default function PortionCalculator() {
               <CardTitle>Desired Portions</CardTitle>
             </CardHeader>
             <CardContent>
-              <Input
-                id="desiredPortions"
-                type="number"
-                min="1"
-                max="20"
-                value={desiredPortions}
-                onChange={(e) =>
-                  setDesiredPortions(
-                    Math.max(1, Number.parseInt(e.target.value) || 1),
-                  )
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                className="mb-3 w-full"
+                value={scaleMode}
+                onValueChange={(value) =>
+                  value && setScaleMode(value as typeof scaleMode)
                 }
-                className="mb-2"
-              />
-              <Slider
-                value={[desiredPortions]}
-                min={1}
-                max={20}
-                step={1}
-                onValueChange={(value) => setDesiredPortions(value[0])}
-              />
-              <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                <span>1</span>
-                <span>20</span>
-              </div>
+              >
+                <ToggleGroupItem value="portions">By portions</ToggleGroupItem>
+                <ToggleGroupItem value="ingredient">
+                  By ingredients
+                </ToggleGroupItem>
+                <ToggleGroupItem value="target">By target</ToggleGroupItem>
+                <ToggleGroupItem value="packages">By packages</ToggleGroupItem>
+                {bakersMode && (
+                  <ToggleGroupItem value="dough">By dough</ToggleGroupItem>
+                )}
+              </ToggleGroup>
+              {scaleMode === 'portions' ? (
+                <>
+                  <Input
+                    id="desiredPortions"
+                    type="number"
+                    min="1"
+                    max="20"
+                    value={desiredPortions}
+                    onChange={(e) =>
+                      setDesiredPortions(
+                        Math.max(1, Number.parseInt(e.target.value) || 1),
+                      )
+                    }
+                    className="mb-2"
+                  />
+                  <Slider
+                    value={[desiredPortions]}
+                    min={1}
+                    max={20}
+                    step={1}
+                    onValueChange={(value) => setDesiredPortions(value[0])}
+                  />
+                  <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                    <span>1</span>
+                    <span>20</span>
+                  </div>
+                </>
+              ) : scaleMode === 'dough' ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Dough weight"
+                      value={doughTarget.weight}
+                      disabled={doughPieces > 0}
+                      onChange={(e) =>
+                        setDoughTarget({
+                          ...doughTarget,
+                          weight: e.target.value,
+                        })
+                      }
+                    />
+                    <span>g</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>or</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Pieces"
+                      value={doughTarget.pieces}
+                      onChange={(e) =>
+                        setDoughTarget({
+                          ...doughTarget,
+                          pieces: e.target.value,
+                        })
+                      }
+                    />
+                    <span>×</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Piece weight"
+                      value={doughTarget.pieceWeight}
+                      onChange={(e) =>
+                        setDoughTarget({
+                          ...doughTarget,
+                          pieceWeight: e.target.value,
+                        })
+                      }
+                    />
+                    <span>g</span>
+                  </div>
+                  {doughRatio ? (
+                    <p className="text-sm text-muted-foreground">
+                      Scale ×{formatDecimal(doughRatio)} from{' '}
+                      {formatNutritionValue(doughWeight ?? 0)} g of dough
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">
+                      {doughWeight
+                        ? 'Enter a target dough weight or pieces and their weight'
+                        : 'Every ingredient needs a weight to scale by dough weight'}
+                    </p>
+                  )}
+                </div>
+              ) : scaleMode === 'target' ? (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder={
+                        nutritionTarget.nutrient === 'calories' ? '550' : '40'
+                      }
+                      value={nutritionTarget.value}
+                      onChange={(e) =>
+                        setNutritionTarget({
+                          ...nutritionTarget,
+                          value: e.target.value,
+                        })
+                      }
+                    />
+                    <Select
+                      value={nutritionTarget.nutrient}
+                      onValueChange={(value) =>
+                        setNutritionTarget({
+                          ...nutritionTarget,
+                          nutrient: value as typeof nutritionTarget.nutrient,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="calories">kcal</SelectItem>
+                        <SelectItem value="protein">g protein</SelectItem>
+                        <SelectItem value="carbs">g carbs</SelectItem>
+                        <SelectItem value="fat">g fat</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {targetSolution ? (
+                    <p className="text-sm text-muted-foreground">
+                      <span className="text-2xl font-semibold text-foreground">
+                        {targetSolution.portions} portions
+                      </span>
+                      {calculateTotalWeight() !== null && (
+                        <>
+                          {' '}
+                          of ≈{' '}
+                          {formatNutritionValue(
+                            (calculateTotalWeight() ?? 0) /
+                              targetSolution.portions,
+                          )}{' '}
+                          g
+                        </>
+                      )}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">
+                      Enter a per-serving target and ingredients with
+                      nutritional data to derive the portions
+                    </p>
+                  )}
+                </div>
+              ) : scaleMode === 'packages' ? (
+                <div className="space-y-3">
+                  {packagedIngredients.length > 0 ? (
+                    <div className="space-y-1">
+                      {packagedIngredients.map(({ ingredient, index }) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`wholePackages-${index}`}
+                            checked={ingredient.wholePackages !== false}
+                            onCheckedChange={(checked) =>
+                              updateIngredient(
+                                index,
+                                'wholePackages',
+                                checked === true,
+                              )
+                            }
+                          />
+                          <Label
+                            htmlFor={`wholePackages-${index}`}
+                            className="text-sm font-normal"
+                          >
+                            {ingredient.name}{' '}
+                            <span className="text-muted-foreground">
+                              ({ingredient.packageSize}{' '}
+                              {ingredient.packageUnit || ingredient.unit})
+                            </span>
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">
+                      Enter package sizes on the ingredient rows to scale to
+                      whole packages
+                    </p>
+                  )}
+                  {packagePortions.map((candidate) => (
+                    <div
+                      key={candidate.portions}
+                      className={`rounded-md border p-2 text-sm ${candidate.portions === desiredPortions ? 'border-primary' : ''}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold">
+                          {candidate.portions} portions
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={candidate.portions === desiredPortions}
+                          onClick={() => setDesiredPortions(candidate.portions)}
+                        >
+                          {candidate.portions === desiredPortions
+                            ? 'Applied'
+                            : 'Apply'}
+                        </Button>
+                      </div>
+                      <ul className="text-xs text-muted-foreground">
+                        {candidate.leftovers.map((leftover) => (
+                          <li key={leftover.index}>
+                            {leftover.packages} ×{' '}
+                            {ingredients[leftover.index].name}
+                            {leftover.share > 0
+                              ? `, ${formatNutritionValue(leftover.leftover)} ${leftover.unit} left over`
+                              : ', used up'}
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="text-xs">
+                        Per serving:{' '}
+                        {formatNutritionValue(
+                          calculatePerServingAt('calories', candidate.portions),
+                        )}{' '}
+                        kcal · P{' '}
+                        {formatNutritionValue(
+                          calculatePerServingAt('protein', candidate.portions),
+                        )}{' '}
+                        g · C{' '}
+                        {formatNutritionValue(
+                          calculatePerServingAt('carbs', candidate.portions),
+                        )}{' '}
+                        g · F{' '}
+                        {formatNutritionValue(
+                          calculatePerServingAt('fat', candidate.portions),
+                        )}{' '}
+                        g
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : limitingIngredient?.ratio === 0 ? (
+                <p className="text-sm text-destructive">
+                  None of{' '}
+                  <span className="font-medium">
+                    {ingredients[limitingIngredient.index].name ||
+                      `row ${limitingIngredient.index + 1}`}
+                  </span>{' '}
+                  on hand, so no portions can be made
+                </p>
+              ) : limitingIngredient ? (
+                <div className="space-y-1">
+                  <p className="text-2xl font-semibold">
+                    {formatNutritionValue(adjustedPortions)} portions
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Scale ×{formatDecimal(scaleRatio)}, limited by{' '}
+                    <span className="font-medium text-foreground">
+                      {ingredients[limitingIngredient.index].name ||
+                        `row ${limitingIngredient.index + 1}`}
+                    </span>
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground italic">
+                  Enter the amount you have on one or more ingredient rows to
+                  derive the portions from it
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
 
         {/* Calculation Display Area */}
         <Tabs defaultValue="ingredients">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="ingredients">Adjusted Ingredients</TabsTrigger>
             <TabsTrigger value="nutrition">Nutrition Facts</TabsTrigger>
+            <TabsTrigger value="optimize">Optimize Macros</TabsTrigger>
+            <TabsTrigger value="shopping">Shopping List</TabsTrigger>
+            <TabsTrigger value="pantry">Pantry</TabsTrigger>
           </TabsList>
 
           <TabsContent value="ingredients">
             <Card>
               <CardContent className="pt-6">
-                {ingredients.some((ing) => ing.name && ing.quantity) ? (
+                <div className="flex flex-wrap items-center justify-end gap-4 mb-4">
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={unitSystem}
+                    onValueChange={(value) =>
+                      value && setUnitSystem(value as typeof unitSystem)
+                    }
+                  >
+                    <ToggleGroupItem value="original">
+                      As written
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="metric">Metric</ToggleGroupItem>
+                    <ToggleGroupItem value="imperial">US</ToggleGroupItem>
+                  </ToggleGroup>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="kitchenRounding"
+                      checked={roundingMode === 'kitchen'}
+                      onCheckedChange={(checked) =>
+                        setRoundingMode(checked ? 'kitchen' : 'exact')
+                      }
+                    />
+                    <Label htmlFor="kitchenRounding">
+                      Kitchen-friendly rounding
+                    </Label>
+                  </div>
+                </div>
+                {bakersMode && flourWeight > 0 && (
+                  <div className="flex gap-2 mb-4">
+                    <Badge variant="secondary">
+                      {`Hydration ${formatDecimal(getHydration(ingredients) ?? 0, 1)}%`}
+                    </Badge>
+                    <Badge variant="secondary">
+                      {`Salt ${formatDecimal(getSaltPercentage(ingredients) ?? 0, 1)}%`}
+                    </Badge>
+                  </div>
+                )}
+                {ingredients.some(isListedIngredient) ? (
                   <Table>
                     <TableHeader>
                       <TableRow>
                         <TableHead>Ingredient</TableHead>
                         <TableHead className="text-right">Original</TableHead>
                         <TableHead className="text-right">Adjusted</TableHead>
+                        {bakersMode && (
+                          <TableHead className="text-right">
+                            Baker's %
+                          </TableHead>
+                        )}
+                        <TableHead className="w-10"></TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {ingredients.map((ingredient, index) =>
-                        ingredient.name && ingredient.quantity ? (
+                        isListedIngredient(ingredient) ? (
                           <TableRow key={index}>
                             <TableCell className="font-medium">
                               {ingredient.name}
+                              {getLeaveningWarning(ingredient) && (
+                                <Badge
+                                  variant="outline"
+                                  className="ml-2 border-amber-500 text-amber-700"
+                                  title={
+                                    getLeaveningWarning(ingredient) ?? undefined
+                                  }
+                                >
+                                  Check leavening
+                                </Badge>
+                              )}
                             </TableCell>
                             <TableCell className="text-right">
-                              {ingredient.quantity} {ingredient.unit}
+                              {ingredient.quantity
+                                ? `${ingredient.quantity} ${ingredient.unit}`
+                                : 'to taste'}
                             </TableCell>
                             <TableCell className="text-right">
-                              {calculateAdjustedValue(ingredient.quantity)}{' '}
-                              {ingredient.unit}
+                              {renderAdjustedQuantity(ingredient)}
+                            </TableCell>
+                            {bakersMode && (
+                              <TableCell className="text-right">
+                                {formatBakersPercentage(ingredient) &&
+                                  `${formatBakersPercentage(ingredient)}%`}
+                              </TableCell>
+                            )}
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={
+                                  ingredient.pinUnit
+                                    ? 'Let the unit adapt to the amount'
+                                    : 'Keep the original unit'
+                                }
+                                onClick={() =>
+                                  updateIngredient(
+                                    index,
+                                    'pinUnit',
+                                    !ingredient.pinUnit,
+                                  )
+                                }
+                              >
+                                {ingredient.pinUnit ? (
+                                  <Pin className="h-4 w-4" />
+                                ) : (
+                                  <PinOff className="h-4 w-4 text-muted-foreground" />
+                                )}
+                                <span className="sr-only">
+                                  Toggle original unit
+                                </span>
+                              </Button>
                             </TableCell>
                           </TableRow>
                         ) : null,
@@ -438,10 +1896,38 @@ export default function PortionCalculator() {
 
           <TabsContent value="nutrition">
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>Nutrition Facts</CardTitle>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger className="w-24" title="Currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </CardHeader>
               <CardContent>
+                {targetSolution && (
+                  <div className="mb-6 rounded-md border p-3 text-sm">
+                    Target {nutritionTarget.value}{' '}
+                    {nutritionTarget.nutrient === 'calories'
+                      ? 'kcal'
+                      : `g ${nutritionTarget.nutrient}`}{' '}
+                    per serving: {targetSolution.portions} portions give{' '}
+                    <span className="font-semibold">
+                      {formatNutritionValue(targetSolution.achieved)}
+                    </span>{' '}
+                    per serving ({targetSolution.error >= 0 ? '+' : ''}
+                    {formatNutritionValue(targetSolution.error * 100)}% from the
+                    target; exactly {formatNutritionValue(targetSolution.exact)}{' '}
+                    portions would hit it)
+                  </div>
+                )}
                 <div className="grid md:grid-cols-2 gap-6">
                   <div>
                     <h3 className="font-semibold text-lg mb-2">
@@ -455,70 +1941,14 @@ export default function PortionCalculator() {
                           <TableHead className="text-right">
                             Per Serving
                           </TableHead>
+                          <TableHead className="text-right">
+                            Per 100 g Cooked
+                          </TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        <TableRow>
-                          <TableCell>Calories</TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('calories'),
-                            )}
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('calories') /
-                              originalPortions,
-                            )}
-                          </TableCell>
-                        </TableRow>
-                        <TableRow>
-                          <TableCell>Protein</TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('protein'),
-                            )}
-                            g
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('protein') /
-                              originalPortions,
-                            )}
-                            g
-                          </TableCell>
-                        </TableRow>
-                        <TableRow>
-                          <TableCell>Carbs</TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('carbs'),
-                            )}
-                            g
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('carbs') /
-                              originalPortions,
-                            )}
-                            g
-                          </TableCell>
-                        </TableRow>
-                        <TableRow>
-                          <TableCell>Fat</TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('fat'),
-                            )}
-                            g
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('fat') / originalPortions,
-                            )}
-                            g
-                          </TableCell>
-                        </TableRow>
+                        {renderNutritionRows()}
+                        {renderCostRow()}
                       </TableBody>
                     </Table>
                   </div>
@@ -535,119 +1965,220 @@ export default function PortionCalculator() {
                           <TableHead className="text-right">
                             Per Serving
                           </TableHead>
+                          <TableHead className="text-right">
+                            Per 100 g Cooked
+                          </TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        <TableRow>
-                          <TableCell>Calories</TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('calories', true),
-                            )}
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('calories', true) /
-                              desiredPortions,
-                            )}
-                          </TableCell>
-                        </TableRow>
-                        <TableRow>
-                          <TableCell>Protein</TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('protein', true),
-                            )}
-                            g
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('protein', true) /
-                              desiredPortions,
-                            )}
-                            g
-                          </TableCell>
-                        </TableRow>
-                        <TableRow>
-                          <TableCell>Carbs</TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('carbs', true),
-                            )}
-                            g
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('carbs', true) /
-                              desiredPortions,
-                            )}
-                            g
-                          </TableCell>
-                        </TableRow>
-                        <TableRow>
-                          <TableCell>Fat</TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('fat', true),
-                            )}
-                            g
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatNutritionValue(
-                              calculateTotalNutrition('fat', true) /
-                              desiredPortions,
-                            )}
-                            g
-                          </TableCell>
-                        </TableRow>
+                        {renderNutritionRows(true)}
+                        {renderCostRow(true)}
                       </TableBody>
                     </Table>
                   </div>
                 </div>
 
+                {pricedIngredients.length > 0 && unpricedCount > 0 && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Cost leaves out {unpricedCount} ingredient
+                    {unpricedCount === 1 ? '' : 's'} without a price
+                  </p>
+                )}
+
+                <div className="mt-6 pt-4 border-t">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-semibold text-lg">
+                      Macronutrient Distribution
+                    </h3>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      size="sm"
+                      value={energyUnit}
+                      onValueChange={(value) =>
+                        value && setEnergyUnit(value as EnergyUnit)
+                      }
+                    >
+                      <ToggleGroupItem value="kcal">kcal</ToggleGroupItem>
+                      <ToggleGroupItem value="kJ">kJ</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                  {energyBreakdown ? (
+                    <>
+                      <div className="flex flex-wrap gap-2 justify-center mt-4">
+                        {energyBreakdown.sources
+                          .filter((source) => source.kcal > 0)
+                          .map((source) => (
+                            <Badge
+                              key={source.key}
+                              className={`px-3 py-1 text-sm ${getEnergyBadgeClass(source.key)}`}
+                              title={`${formatNutritionValue(
+                                toEnergyUnit(
+                                  perPortion(source.kcal, adjustedPortions),
+                                  energyUnit,
+                                ),
+                              )} ${energyUnit} per serving`}
+                            >
+                              {source.label}: {source.percent}%
+                            </Badge>
+                          ))}
+                      </div>
+                      {Math.abs(getEnergyDiscrepancy(energyBreakdown)) >
+                        ENERGY_TOLERANCE && (
+                        <div className="flex justify-center mt-3">
+                          <Badge
+                            variant="outline"
+                            className="border-amber-500 text-amber-700 whitespace-normal"
+                          >
+                            Entered energy is{' '}
+                            {formatNutritionValue(
+                              toEnergyUnit(
+                                energyBreakdown.declaredKcal,
+                                energyUnit,
+                              ),
+                            )}{' '}
+                            {energyUnit} but protein, carbs, fat and alcohol add
+                            up to{' '}
+                            {formatNutritionValue(
+                              toEnergyUnit(
+                                energyBreakdown.computedKcal,
+                                energyUnit,
+                              ),
+                            )}{' '}
+                            {energyUnit} - check the ingredient values
+                          </Badge>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground italic text-center mt-4">
+                      Add ingredients with nutritional data to see macronutrient
+                      distribution
+                    </p>
+                  )}
+                </div>
+
+                <div className="mt-6 pt-4 border-t">
+                  <h3 className="font-semibold text-lg mb-2">Daily Targets</h3>
+                  <NutritionProfiles
+                    getPerServing={(nutrient) =>
+                      perPortion(
+                        calculateTotalNutrition(nutrient, true),
+                        adjustedPortions,
+                      )
+                    }
+                  />
+                </div>
+
+                <div className="mt-6 pt-4 border-t">
+                  <h3 className="font-semibold text-lg mb-2">Diet Rules</h3>
+                  <DietChecks
+                    rows={ingredients
+                      .filter((ingredient) => ingredient.name)
+                      .map((ingredient) => ({
+                        name: ingredient.name,
+                        getAmount: (nutrient) =>
+                          perPortion(
+                            calculateIngredientNutrition(
+                              ingredient,
+                              nutrient,
+                              true,
+                            ),
+                            adjustedPortions,
+                          ),
+                        hasData: (nutrient) => !!ingredient[nutrient],
+                      }))}
+                  />
+                </div>
+
                 <div className="mt-6 pt-4 border-t">
                   <h3 className="font-semibold text-lg mb-2">
-                    Macronutrient Distribution
+                    Nutrition Labels
                   </h3>
-                  <div className="flex gap-2 justify-center mt-4">
-                    {calculateTotalNutrition('calories', true) > 0 ? (
-                      <>
-                        <Badge className="px-3 py-1 text-sm bg-primary text-primary-foreground">
-                          Protein:{' '}
-                          {Math.round(
-                            ((calculateTotalNutrition('protein', true) * 4) /
-                              calculateTotalNutrition('calories', true)) *
-                            100,
-                          )}
-                          %
-                        </Badge>
-                        <Badge className="px-3 py-1 text-sm bg-secondary text-secondary-foreground">
-                          Carbs:{' '}
-                          {Math.round(
-                            ((calculateTotalNutrition('carbs', true) * 4) /
-                              calculateTotalNutrition('calories', true)) *
-                            100,
-                          )}
-                          %
-                        </Badge>
-                        <Badge className="px-3 py-1 text-sm bg-accent text-accent-foreground">
-                          Fat:{' '}
-                          {Math.round(
-                            ((calculateTotalNutrition('fat', true) * 9) /
-                              calculateTotalNutrition('calories', true)) *
-                            100,
-                          )}
-                          %
-                        </Badge>
-                      </>
-                    ) : (
-                      <p className="text-muted-foreground italic">
-                        Add ingredients with nutritional data to see
-                        macronutrient distribution
-                      </p>
-                    )}
+                  <div className="grid lg:grid-cols-2 gap-6 items-start">
+                    <NutritionLabel
+                      getPerServing={(nutrient) =>
+                        perPortion(
+                          calculateTotalNutrition(nutrient, true),
+                          adjustedPortions,
+                        )
+                      }
+                      servingGrams={
+                        adjustedCookedWeight === null
+                          ? null
+                          : perPortion(adjustedCookedWeight, adjustedPortions)
+                      }
+                      servings={adjustedPortions}
+                      contains={formatContainsStatement(recipeAllergens, 'US')}
+                    />
+                    <EuNutritionLabel
+                      getTotal={(nutrient) =>
+                        calculateTotalNutrition(nutrient, true)
+                      }
+                      batchGrams={adjustedCookedWeight}
+                      portions={adjustedPortions}
+                      contains={formatContainsStatement(recipeAllergens, 'EU')}
+                    />
                   </div>
                 </div>
+
+                <div className="mt-6 pt-4 border-t">
+                  <h3 className="font-semibold text-lg mb-2">Cooked Yield</h3>
+                  <CookedYieldEditor
+                    ingredients={ingredients}
+                    cookedYield={cookedYield}
+                    cookedWeight={calculateCookedWeight()}
+                    onCookedYieldChange={setCookedYield}
+                    onUpdateIngredient={updateIngredient}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="optimize">
+            <Card>
+              <CardHeader>
+                <CardTitle>Optimize Macros</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <MacroOptimizer
+                  ingredients={ingredients}
+                  portions={originalPortions}
+                  onUpdateIngredient={updateIngredient}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="shopping">
+            <Card>
+              <CardHeader>
+                <CardTitle>Shopping List</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ShoppingList items={shoppingItems} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="pantry">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pantry</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PantryCheck
+                  rows={purchasedIngredients}
+                  pantry={pantry}
+                  onPantryChange={setPantry}
+                />
+                <h3 className="font-semibold mt-6 mb-2">What can I cook?</h3>
+                <CookableRecipes
+                  recipes={recipes}
+                  pantry={pantry}
+                  onLoad={loadRecipe}
+                />
               </CardContent>
             </Card>
           </TabsContent>
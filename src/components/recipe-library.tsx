@@ -0,0 +1,94 @@
+import { Save, Trash2 } from 'lucide-react'
+import type { SavedRecipe } from '@/lib/recipes'
+import type { Ingredient } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { saveRecipe } from '@/lib/recipes'
+
+type RecipeLibraryProps = {
+  // Name the current recipe is saved under
+  name: string
+  onNameChange: (name: string) => void
+  recipes: Array<SavedRecipe>
+  onRecipesChange: (recipes: Array<SavedRecipe>) => void
+  // The recipe as currently entered
+  ingredients: Array<Ingredient>
+  portions: number
+  onLoad: (recipe: SavedRecipe) => void
+}
+
+export default function RecipeLibrary({
+  name,
+  onNameChange,
+  recipes,
+  onRecipesChange,
+  ingredients,
+  portions,
+  onLoad,
+}: RecipeLibraryProps) {
+  const loadRecipe = (id: string) => {
+    const recipe = recipes.find((candidate) => candidate.id === id)
+    if (recipe) onLoad(recipe)
+  }
+
+  const selected = recipes.find(
+    (recipe) => recipe.name.toLowerCase() === name.trim().toLowerCase(),
+  )
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        className="w-56"
+        placeholder="Recipe name"
+        value={name}
+        onChange={(e) => onNameChange(e.target.value)}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!name.trim()}
+        onClick={() =>
+          onRecipesChange(saveRecipe(recipes, { name, portions, ingredients }))
+        }
+      >
+        <Save className="h-4 w-4 mr-2" />
+        {selected ? 'Update' : 'Save'}
+      </Button>
+      {recipes.length > 0 && (
+        <Select value={selected?.id ?? ''} onValueChange={loadRecipe}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Load a recipe" />
+          </SelectTrigger>
+          <SelectContent>
+            {recipes.map((recipe) => (
+              <SelectItem key={recipe.id} value={recipe.id}>
+                {recipe.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {selected && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() =>
+            onRecipesChange(
+              recipes.filter((recipe) => recipe.id !== selected.id),
+            )
+          }
+        >
+          <Trash2 className="h-4 w-4 text-muted-foreground" />
+          <span className="sr-only">Delete recipe</span>
+        </Button>
+      )}
+    </div>
+  )
+}
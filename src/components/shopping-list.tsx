@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { ClipboardCopy, RefreshCw } from 'lucide-react'
+import type { ShoppingItem } from '@/lib/shopping'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { useLocalStorage } from '@/hooks/use-local-storage'
+import {
+  STORE_SECTIONS,
+  formatShoppingList,
+  mergeShoppingList,
+} from '@/lib/shopping'
+
+type ShoppingListProps = {
+  // Items for the adjusted recipe as it stands
+  items: Array<ShoppingItem>
+}
+
+// The list is a stored snapshot, so it survives reloads and later edits to
+// the recipe until it is updated
+export default function ShoppingList({ items }: ShoppingListProps) {
+  const [list, setList] = useLocalStorage<Array<ShoppingItem>>(
+    'porzio:shopping-list',
+    [],
+  )
+
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null)
+
+  // The clipboard is missing in insecure contexts and may be denied
+  const copyList = async () => {
+    try {
+      await navigator.clipboard.writeText(formatShoppingList(list))
+      setCopyStatus('copied')
+    } catch {
+      setCopyStatus('failed')
+    }
+  }
+
+  const toggleItem = (id: string, checked: boolean) =>
+    setList(list.map((item) => (item.id === id ? { ...item, checked } : item)))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={items.length === 0}
+          onClick={() => setList(mergeShoppingList(list, items))}
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {list.length > 0 ? 'Update from recipe' : 'Create from recipe'}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={list.length === 0}
+          onClick={copyList}
+        >
+          <ClipboardCopy className="h-4 w-4 mr-2" />
+          Copy as text
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!list.some((item) => item.checked)}
+          onClick={() => setList(list.filter((item) => !item.checked))}
+        >
+          Remove ticked
+        </Button>
+      </div>
+      {copyStatus && (
+        <p
+          className={`text-xs ${copyStatus === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}
+        >
+          {copyStatus === 'copied'
+            ? 'Copied to the clipboard'
+            : 'Could not copy, the browser did not allow access to the clipboard'}
+        </p>
+      )}
+
+      {list.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          Scale the recipe and create a shopping list from it
+        </p>
+      ) : (
+        STORE_SECTIONS.map((section) => {
+          const sectionItems = list.filter(
+            (item) => item.section === section.id,
+          )
+          if (sectionItems.length === 0) return null
+
+          return (
+            <div key={section.id}>
+              <h3 className="font-semibold mb-2">{section.label}</h3>
+              <ul className="space-y-2">
+                {sectionItems.map((item) => (
+                  <li key={item.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`shopping-${item.id}`}
+                      checked={item.checked}
+                      onCheckedChange={(checked) =>
+                        toggleItem(item.id, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`shopping-${item.id}`}
+                      className={`flex-1 justify-between font-normal ${item.checked ? 'line-through text-muted-foreground' : ''}`}
+                    >
+                      <span>{item.name}</span>
+                      <span className="text-muted-foreground">
+                        {item.packages ? (
+                          <>
+                            {item.packages}{' '}
+                            <span className="text-xs">({item.amount})</span>
+                          </>
+                        ) : (
+                          item.amount
+                        )}
+                      </span>
+                    </Label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react"
+
+// State that survives a reload. Unreadable or missing entries fall back to
+// the initial value, and failed writes (quota, private mode) are ignored.
+export function useLocalStorage<T>(key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = window.localStorage.getItem(key)
+      return stored === null ? initialValue : (JSON.parse(stored) as T)
+    } catch {
+      return initialValue
+    }
+  })
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value))
+    } catch {
+      // Keep working in memory
+    }
+  }, [key, value])
+
+  return [value, setValue] as const
+}
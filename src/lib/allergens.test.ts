@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import type { Ingredient } from '@/lib/types'
+import {
+  detectAllergens,
+  formatContainsStatement,
+  getIngredientAllergens,
+  getRecipeAllergens,
+  toAllergenOverrides,
+} from '@/lib/allergens'
+
+const ingredient = (fields: Partial<Ingredient>): Ingredient => ({
+  name: '',
+  quantity: '',
+  unit: 'g',
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  ...fields,
+})
+
+describe('detectAllergens', () => {
+  it('detects allergens from the start of words', () => {
+    expect(detectAllergens('Plain flour')).toEqual(['gluten', 'wheat'])
+    expect(detectAllergens('buttermilk')).toEqual(['milk'])
+    expect(detectAllergens('anchovies in oil')).toEqual(['fish'])
+    expect(detectAllergens('2 large eggs')).toEqual(['eggs'])
+    expect(detectAllergens('toasted sesame seeds')).toEqual(['sesame'])
+  })
+
+  it('leaves out names that only look like an allergen', () => {
+    expect(detectAllergens('eggplant')).toEqual([])
+    expect(detectAllergens('butternut squash')).toEqual([])
+    expect(detectAllergens('coconut milk')).toEqual([])
+    expect(detectAllergens('rice flour')).toEqual([])
+    expect(detectAllergens('peanut butter')).toEqual(['peanuts'])
+  })
+})
+
+describe('getIngredientAllergens', () => {
+  it('applies confirmations and dismissals on top of detection', () => {
+    expect(
+      getIngredientAllergens({
+        name: 'pesto',
+        allergens: { milk: true, 'tree-nuts': false },
+      }),
+    ).toEqual([
+      { id: 'milk', status: 'confirmed' },
+      { id: 'tree-nuts', status: 'dismissed' },
+    ])
+    expect(getIngredientAllergens({ name: 'butter' })).toEqual([
+      { id: 'milk', status: 'detected' },
+    ])
+  })
+})
+
+describe('getRecipeAllergens', () => {
+  it('lists the source rows and confirms only fully confirmed allergens', () => {
+    const allergens = getRecipeAllergens([
+      ingredient({ name: 'butter', allergens: { milk: true } }),
+      ingredient({ name: 'parmesan' }),
+      ingredient({ name: 'soy sauce', allergens: { soy: false } }),
+    ])
+    const milk = allergens.find(({ id }) => id === 'milk')
+    expect(milk?.sources).toEqual(['butter', 'parmesan'])
+    expect(milk?.confirmed).toBe(false)
+    expect(allergens.map(({ id }) => id)).toEqual(['gluten', 'wheat', 'milk'])
+  })
+})
+
+describe('toAllergenOverrides', () => {
+  it('confirms the listed allergens', () => {
+    expect(toAllergenOverrides(['milk', 'eggs'])).toEqual({
+      milk: true,
+      eggs: true,
+    })
+    expect(toAllergenOverrides()).toEqual({})
+  })
+})
+
+describe('formatContainsStatement', () => {
+  it('lists the allergens of one region', () => {
+    const allergens = getRecipeAllergens([
+      ingredient({ name: 'bread' }),
+      ingredient({ name: 'celery' }),
+    ])
+    expect(formatContainsStatement(allergens, 'EU')).toBe(
+      'Contains: Gluten, Celery',
+    )
+    expect(formatContainsStatement(allergens, 'US')).toBe('Contains: Wheat')
+    expect(formatContainsStatement([], 'US')).toBeNull()
+  })
+})
@@ -0,0 +1,299 @@
+import type { Ingredient } from '@/lib/types'
+import { matchesAnyKeyword } from '@/lib/keywords'
+
+export type AllergenId =
+  | 'gluten'
+  | 'wheat'
+  | 'crustaceans'
+  | 'eggs'
+  | 'fish'
+  | 'peanuts'
+  | 'soy'
+  | 'milk'
+  | 'tree-nuts'
+  | 'celery'
+  | 'mustard'
+  | 'sesame'
+  | 'sulphites'
+  | 'lupin'
+  | 'molluscs'
+
+// True marks an allergen confirmed or added by hand, false a dismissed
+// detection. Allergens without an entry come from the keyword dictionary.
+export type AllergenOverrides = Partial<Record<AllergenId, boolean>>
+
+export type AllergenStatus = 'detected' | 'confirmed' | 'dismissed'
+
+type AllergenDefinition = {
+  id: AllergenId
+  label: string
+  // Annex II of EU Regulation 1169/2011 and the US major food allergens
+  regions: Array<'EU' | 'US'>
+  keywords: Array<string>
+  // Names that contain a keyword but not the allergen
+  excludes?: Array<string>
+}
+
+const GLUTEN_FREE_FLOURS = [
+  'rice flour',
+  'almond flour',
+  'coconut flour',
+  'corn flour',
+  'cornflour',
+  'chickpea flour',
+  'rice noodle',
+  'gluten-free',
+  'gluten free',
+]
+
+export const ALLERGENS: Array<AllergenDefinition> = [
+  {
+    id: 'gluten',
+    label: 'Gluten',
+    regions: ['EU'],
+    keywords: [
+      'wheat',
+      'flour',
+      'bread',
+      'pasta',
+      'spaghetti',
+      'noodle',
+      'couscous',
+      'semolina',
+      'bulgur',
+      'spelt',
+      'barley',
+      'rye',
+      'oat',
+      'seitan',
+      'panko',
+      'malt',
+      'beer',
+      'soy sauce',
+    ],
+    excludes: GLUTEN_FREE_FLOURS,
+  },
+  {
+    id: 'wheat',
+    label: 'Wheat',
+    regions: ['US'],
+    keywords: [
+      'wheat',
+      'flour',
+      'bread',
+      'pasta',
+      'spaghetti',
+      'noodle',
+      'couscous',
+      'semolina',
+      'bulgur',
+      'spelt',
+      'seitan',
+      'panko',
+      'soy sauce',
+    ],
+    excludes: GLUTEN_FREE_FLOURS,
+  },
+  {
+    id: 'crustaceans',
+    label: 'Crustaceans',
+    regions: ['EU', 'US'],
+    keywords: ['shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'scampi'],
+  },
+  {
+    id: 'eggs',
+    label: 'Eggs',
+    regions: ['EU', 'US'],
+    keywords: ['egg', 'mayonnaise', 'mayo', 'meringue', 'aioli'],
+    excludes: ['eggplant'],
+  },
+  {
+    id: 'fish',
+    label: 'Fish',
+    regions: ['EU', 'US'],
+    keywords: [
+      'fish',
+      'salmon',
+      'tuna',
+      'cod',
+      'anchovy',
+      'sardine',
+      'trout',
+      'haddock',
+      'mackerel',
+      'worcestershire',
+    ],
+  },
+  {
+    id: 'peanuts',
+    label: 'Peanuts',
+    regions: ['EU', 'US'],
+    keywords: ['peanut', 'groundnut', 'satay'],
+  },
+  {
+    id: 'soy',
+    label: 'Soy',
+    regions: ['EU', 'US'],
+    keywords: ['soy', 'tofu', 'edamame', 'tempeh', 'miso'],
+  },
+  {
+    id: 'milk',
+    label: 'Milk',
+    regions: ['EU', 'US'],
+    keywords: [
+      'milk',
+      'butter',
+      'cream',
+      'cheese',
+      'yogurt',
+      'yoghurt',
+      'ghee',
+      'whey',
+      'parmesan',
+      'mozzarella',
+      'ricotta',
+      'mascarpone',
+      'kefir',
+    ],
+    excludes: [
+      'peanut butter',
+      'almond milk',
+      'oat milk',
+      'soy milk',
+      'rice milk',
+      'coconut milk',
+      'coconut cream',
+      'cocoa butter',
+      'cream of tartar',
+      'butternut',
+      'dairy-free',
+    ],
+  },
+  {
+    id: 'tree-nuts',
+    label: 'Tree nuts',
+    regions: ['EU', 'US'],
+    keywords: [
+      'almond',
+      'hazelnut',
+      'walnut',
+      'cashew',
+      'pecan',
+      'pistachio',
+      'macadamia',
+      'brazil nut',
+      'mixed nut',
+      'marzipan',
+      'praline',
+    ],
+  },
+  {
+    id: 'celery',
+    label: 'Celery',
+    regions: ['EU'],
+    keywords: ['celery', 'celeriac'],
+  },
+  { id: 'mustard', label: 'Mustard', regions: ['EU'], keywords: ['mustard'] },
+  {
+    id: 'sesame',
+    label: 'Sesame',
+    regions: ['EU', 'US'],
+    keywords: ['sesame', 'tahini', 'hummus'],
+  },
+  {
+    id: 'sulphites',
+    label: 'Sulphites',
+    regions: ['EU'],
+    keywords: ['wine', 'sulphite', 'sulfite', 'dried apricot'],
+  },
+  { id: 'lupin', label: 'Lupin', regions: ['EU'], keywords: ['lupin'] },
+  {
+    id: 'molluscs',
+    label: 'Molluscs',
+    regions: ['EU'],
+    keywords: [
+      'mussel',
+      'clam',
+      'oyster',
+      'scallop',
+      'squid',
+      'octopus',
+      'calamari',
+    ],
+  },
+]
+
+export function getAllergen(id: AllergenId) {
+  return ALLERGENS.find((allergen) => allergen.id === id)
+}
+
+// Likely allergens of a free-typed ingredient name
+export function detectAllergens(name: string): Array<AllergenId> {
+  return ALLERGENS.filter(
+    (allergen) =>
+      !matchesAnyKeyword(name, allergen.excludes ?? []) &&
+      matchesAnyKeyword(name, allergen.keywords, 'prefix'),
+  ).map((allergen) => allergen.id)
+}
+
+// Every allergen of a row with its status, dismissed ones included so that
+// they can be restored
+export function getIngredientAllergens(
+  ingredient: Pick<Ingredient, 'name' | 'allergens'>,
+): Array<{ id: AllergenId; status: AllergenStatus }> {
+  const overrides = ingredient.allergens ?? {}
+  const detected = detectAllergens(ingredient.name)
+
+  return ALLERGENS.filter(
+    ({ id }) => detected.includes(id) || overrides[id] !== undefined,
+  ).map(({ id }) => ({
+    id,
+    status:
+      overrides[id] === undefined
+        ? 'detected'
+        : overrides[id]
+          ? 'confirmed'
+          : 'dismissed',
+  }))
+}
+
+// Allergens of the whole recipe with the rows they come from. An allergen
+// counts as confirmed once every row that carries it is confirmed.
+export function getRecipeAllergens(ingredients: Array<Ingredient>) {
+  const summary = new Map<
+    AllergenId,
+    { sources: Array<string>; confirmed: boolean }
+  >()
+
+  for (const ingredient of ingredients) {
+    for (const { id, status } of getIngredientAllergens(ingredient)) {
+      if (status === 'dismissed') continue
+
+      const entry = summary.get(id) ?? { sources: [], confirmed: true }
+      entry.sources.push(ingredient.name)
+      entry.confirmed = entry.confirmed && status === 'confirmed'
+      summary.set(id, entry)
+    }
+  }
+
+  return ALLERGENS.flatMap((allergen) => {
+    const entry = summary.get(allergen.id)
+    return entry ? [{ ...allergen, ...entry }] : []
+  })
+}
+
+// Allergens listed by a database entry count as confirmed
+export function toAllergenOverrides(ids: Array<AllergenId> = []) {
+  return Object.fromEntries(ids.map((id) => [id, true])) as AllergenOverrides
+}
+
+// "Contains: Milk, Wheat" for the labels, limited to one region's list
+export function formatContainsStatement(
+  allergens: Array<{ id: AllergenId; label: string; regions: Array<string> }>,
+  region: 'EU' | 'US',
+) {
+  const labels = allergens
+    .filter((allergen) => allergen.regions.includes(region))
+    .map((allergen) => allergen.label)
+  return labels.length > 0 ? `Contains: ${labels.join(', ')}` : null
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import type { Ingredient } from '@/lib/types'
+import {
+  getBakersPercentage,
+  getDoughWeight,
+  getFlourWeight,
+  getHydration,
+  getSaltPercentage,
+  quantityFromPercentage,
+} from '@/lib/bakers'
+
+const ingredient = (fields: Partial<Ingredient>): Ingredient => ({
+  name: '',
+  quantity: '',
+  unit: 'g',
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  ...fields,
+})
+
+const dough = [
+  ingredient({ name: 'bread flour', quantity: '400', isFlour: true }),
+  ingredient({ name: 'rye flour', quantity: '100', isFlour: true }),
+  ingredient({ name: 'water', quantity: '300' }),
+  ingredient({ name: 'whole milk', quantity: '100' }),
+  ingredient({ name: 'sea salt', quantity: '10' }),
+  ingredient({ name: 'salted butter', quantity: '50' }),
+]
+
+describe('getDoughWeight and getFlourWeight', () => {
+  it('weighs the whole dough and its flour', () => {
+    expect(getDoughWeight(dough)).toBe(960)
+    expect(getFlourWeight(dough)).toBe(500)
+  })
+
+  it('cannot weigh a dough with a row of unknown weight', () => {
+    expect(
+      getDoughWeight([
+        ...dough,
+        ingredient({ name: 'mystery', quantity: '1', unit: 'piece' }),
+      ]),
+    ).toBeNull()
+  })
+})
+
+describe('getBakersPercentage and quantityFromPercentage', () => {
+  it('converts between a row and its share of the flour', () => {
+    expect(getBakersPercentage(dough[2], 500)).toBe(60)
+    expect(getBakersPercentage(dough[2], 0)).toBeNull()
+    expect(quantityFromPercentage(2, 500, ingredient({ unit: 'kg' }))).toBe(
+      0.01,
+    )
+  })
+})
+
+describe('getHydration', () => {
+  it('counts the water share of every liquid', () => {
+    // 300 g of water and 87 g from the milk
+    expect(getHydration(dough)).toBeCloseTo(77.4)
+    expect(getHydration(dough.slice(2))).toBeNull()
+  })
+})
+
+describe('getSaltPercentage', () => {
+  it('counts salt but not salted foods', () => {
+    expect(getSaltPercentage(dough)).toBe(2)
+  })
+})
@@ -0,0 +1,92 @@
+import type { Ingredient } from '@/lib/types'
+import { fromGrams, toGrams } from '@/lib/density'
+import { matchesKeyword } from '@/lib/keywords'
+import { parseQuantity } from '@/lib/quantity'
+
+// Share of water in common dough liquids, for the hydration percentage.
+// More specific entries come first so that "buttermilk" is not read as milk.
+const WATER_SHARES: Array<{ keyword: string; share: number }> = [
+  { keyword: 'buttermilk', share: 0.9 },
+  { keyword: 'milk', share: 0.87 },
+  { keyword: 'water', share: 1 },
+  { keyword: 'beer', share: 0.92 },
+  { keyword: 'yogurt', share: 0.85 },
+  { keyword: 'yoghurt', share: 0.85 },
+  { keyword: 'egg', share: 0.75 },
+]
+
+export const getIngredientGrams = (ingredient: Ingredient) => {
+  const quantity = parseQuantity(ingredient.quantity)
+  return quantity === null ? null : toGrams(quantity, ingredient)
+}
+
+// Weight of the whole dough, or null when a row cannot be weighed
+export function getDoughWeight(ingredients: Array<Ingredient>) {
+  return ingredients.reduce<number | null>((total, ingredient) => {
+    if (total === null || !ingredient.quantity) return total
+
+    const grams = getIngredientGrams(ingredient)
+    return grams === null ? null : total + grams
+  }, 0)
+}
+
+// Total weight of the rows marked as flour, the 100% of the formula
+export function getFlourWeight(ingredients: Array<Ingredient>) {
+  return ingredients.reduce(
+    (total, ingredient) =>
+      ingredient.isFlour
+        ? total + (getIngredientGrams(ingredient) ?? 0)
+        : total,
+    0,
+  )
+}
+
+export function getBakersPercentage(
+  ingredient: Ingredient,
+  flourWeight: number,
+): number | null {
+  const grams = getIngredientGrams(ingredient)
+  return grams === null || flourWeight <= 0 ? null : (grams / flourWeight) * 100
+}
+
+// Quantity in the row's unit for a percentage of the flour weight
+export function quantityFromPercentage(
+  percentage: number,
+  flourWeight: number,
+  ingredient: Ingredient,
+) {
+  return fromGrams((percentage / 100) * flourWeight, ingredient)
+}
+
+// Water from all liquids as a percentage of the flour weight
+export function getHydration(ingredients: Array<Ingredient>) {
+  const flourWeight = getFlourWeight(ingredients)
+  if (flourWeight <= 0) return null
+
+  const water = ingredients.reduce((total, ingredient) => {
+    if (ingredient.isFlour) return total
+
+    const liquid = WATER_SHARES.find(({ keyword }) =>
+      matchesKeyword(ingredient.name, keyword),
+    )
+    const grams = getIngredientGrams(ingredient)
+    return liquid && grams !== null ? total + grams * liquid.share : total
+  }, 0)
+
+  return (water / flourWeight) * 100
+}
+
+export function getSaltPercentage(ingredients: Array<Ingredient>) {
+  const flourWeight = getFlourWeight(ingredients)
+  if (flourWeight <= 0) return null
+
+  const salt = ingredients.reduce(
+    (total, ingredient) =>
+      !ingredient.isFlour && matchesKeyword(ingredient.name, 'salt')
+        ? total + (getIngredientGrams(ingredient) ?? 0)
+        : total,
+    0,
+  )
+
+  return (salt / flourWeight) * 100
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import type { Ingredient } from '@/lib/types'
+import { formatCost, getLineCost, getPackageCount } from '@/lib/cost'
+
+const ingredient = (fields: Partial<Ingredient>): Ingredient => ({
+  name: '',
+  quantity: '',
+  unit: 'g',
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  ...fields,
+})
+
+describe('getPackageCount', () => {
+  it('counts packages in the row unit by default', () => {
+    expect(getPackageCount(750, ingredient({ packageSize: '500' }))).toBe(1.5)
+    expect(getPackageCount(750, ingredient({}))).toBeNull()
+  })
+
+  it('converts to the package unit', () => {
+    const rice = ingredient({ packageSize: '1', packageUnit: 'kg' })
+    expect(getPackageCount(250, rice)).toBeCloseTo(0.25)
+  })
+
+  it('goes through the weight across dimensions', () => {
+    const flour = ingredient({
+      name: 'flour',
+      unit: 'cup',
+      packageSize: '1',
+      packageUnit: 'kg',
+    })
+    expect(getPackageCount(2, flour)).toBeCloseTo(0.24)
+    expect(
+      getPackageCount(2, { ...flour, name: 'mystery', unit: 'piece' }),
+    ).toBeNull()
+  })
+})
+
+describe('getLineCost', () => {
+  it('prices the packages a quantity fills', () => {
+    expect(
+      getLineCost(750, ingredient({ packageSize: '500', price: '2' })),
+    ).toBe(3)
+    expect(getLineCost(750, ingredient({ packageSize: '500' }))).toBeNull()
+  })
+})
+
+describe('formatCost', () => {
+  it('formats the amount in the currency', () => {
+    expect(formatCost(1.5, 'EUR')).toContain('1.50')
+  })
+})
@@ -0,0 +1,45 @@
+import type { Ingredient } from '@/lib/types'
+import { toGrams } from '@/lib/density'
+import { parseQuantity } from '@/lib/quantity'
+import { convertQuantity } from '@/lib/units'
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'CZK', 'PLN']
+
+// Number of packages a purchased quantity in the row's unit fills, e.g. 1.5
+// for 750 g of a 500 g bag. The package unit defaults to the row's unit and
+// may be of another dimension when the row can be weighed, e.g. eggs sold
+// by the kilogram.
+export function getPackageCount(
+  quantity: number,
+  ingredient: Ingredient,
+): number | null {
+  const packageSize = parseQuantity(ingredient.packageSize ?? '')
+  if (!packageSize) return null
+
+  const packageUnit = ingredient.packageUnit?.trim() || ingredient.unit
+  if (packageUnit === ingredient.unit) return quantity / packageSize
+
+  const converted = convertQuantity(quantity, ingredient.unit, packageUnit)
+  if (converted !== null) return converted / packageSize
+
+  const grams = toGrams(quantity, ingredient)
+  const packageGrams = toGrams(packageSize, {
+    ...ingredient,
+    unit: packageUnit,
+  })
+  return grams !== null && packageGrams ? grams / packageGrams : null
+}
+
+// Cost of a purchased quantity, priced per package
+export function getLineCost(
+  quantity: number,
+  ingredient: Ingredient,
+): number | null {
+  const price = parseQuantity(ingredient.price ?? '')
+  const packages = getPackageCount(quantity, ingredient)
+  return price === null || packages === null ? null : packages * price
+}
+
+export function formatCost(value: number, currency: string) {
+  return value.toLocaleString(undefined, { style: 'currency', currency })
+}
@@ -0,0 +1,94 @@
+import type { Ingredient } from '@/lib/types'
+import { matchesAnyKeyword } from '@/lib/keywords'
+import { findUnit } from '@/lib/units'
+
+type FoodDensity = {
+  name: string
+  keywords: Array<string>
+  gramsPerCup: number
+}
+
+const CUP_IN_ML = 236.5882365
+
+// Typical weights of one US cup. More specific entries come first so that
+// "brown sugar" does not match plain "sugar".
+export const FOOD_DENSITIES: Array<FoodDensity> = [
+  { name: 'Bread flour', keywords: ['bread flour'], gramsPerCup: 127 },
+  {
+    name: 'Whole wheat flour',
+    keywords: ['whole wheat flour', 'wholemeal flour'],
+    gramsPerCup: 113,
+  },
+  { name: 'Flour', keywords: ['flour'], gramsPerCup: 120 },
+  { name: 'Brown sugar', keywords: ['brown sugar'], gramsPerCup: 213 },
+  {
+    name: 'Powdered sugar',
+    keywords: ['powdered sugar', 'icing sugar', 'confectioners sugar'],
+    gramsPerCup: 120,
+  },
+  { name: 'Sugar', keywords: ['sugar'], gramsPerCup: 200 },
+  { name: 'Olive oil', keywords: ['olive oil'], gramsPerCup: 216 },
+  { name: 'Oil', keywords: ['oil'], gramsPerCup: 218 },
+  { name: 'Cooked rice', keywords: ['cooked rice'], gramsPerCup: 195 },
+  { name: 'Rice', keywords: ['rice'], gramsPerCup: 185 },
+  { name: 'Milk', keywords: ['milk'], gramsPerCup: 245 },
+  { name: 'Honey', keywords: ['honey'], gramsPerCup: 340 },
+  { name: 'Butter', keywords: ['butter'], gramsPerCup: 227 },
+  { name: 'Water', keywords: ['water'], gramsPerCup: 237 },
+]
+
+export function findFoodDensity(name: string): FoodDensity | undefined {
+  return FOOD_DENSITIES.find((food) => matchesAnyKeyword(name, food.keywords))
+}
+
+// Resolves the density of an ingredient in g/ml. An explicit density wins
+// over a per-cup weight, which wins over the built-in food table.
+export function getDensity(
+  ingredient: Pick<Ingredient, 'name' | 'density' | 'gramsPerCup'>,
+): number | null {
+  const density = Number.parseFloat(ingredient.density ?? '')
+  if (density > 0) return density
+
+  const gramsPerCup = Number.parseFloat(ingredient.gramsPerCup ?? '')
+  if (gramsPerCup > 0) return gramsPerCup / CUP_IN_ML
+
+  const food = findFoodDensity(ingredient.name)
+  return food ? food.gramsPerCup / CUP_IN_ML : null
+}
+
+// Converts a quantity to grams, going through the density for volumes and
+// the item weight for counted units. Returns null for unknown units and for
+// volumes or counts whose weight is not known.
+export function toGrams(
+  quantity: number,
+  ingredient: Pick<
+    Ingredient,
+    'name' | 'unit' | 'density' | 'gramsPerCup' | 'gramsPerItem'
+  >,
+): number | null {
+  const unit = findUnit(ingredient.unit)
+  if (!unit) return null
+
+  if (unit.dimension === 'mass') return quantity * unit.toBase
+  if (unit.dimension === 'volume') {
+    const density = getDensity(ingredient)
+    return density === null ? null : quantity * unit.toBase * density
+  }
+
+  const gramsPerItem = Number.parseFloat(ingredient.gramsPerItem ?? '')
+  if (gramsPerItem > 0) return quantity * gramsPerItem
+  return unit.typicalGrams ? quantity * unit.typicalGrams : null
+}
+
+// Inverse of toGrams: the quantity in the ingredient's unit that weighs the
+// given number of grams
+export function fromGrams(
+  grams: number,
+  ingredient: Pick<
+    Ingredient,
+    'name' | 'unit' | 'density' | 'gramsPerCup' | 'gramsPerItem'
+  >,
+): number | null {
+  const gramsPerUnit = toGrams(1, ingredient)
+  return gramsPerUnit ? grams / gramsPerUnit : null
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type { DietRow, DietRuleSetId, LimitMetric } from '@/lib/diet-rules'
+import type { NutrientKey } from '@/lib/nutrients'
+import {
+  DIET_RULE_SETS,
+  evaluateRuleSet,
+  getLimitStatus,
+  getNetCarbs,
+} from '@/lib/diet-rules'
+
+const row = (
+  name: string,
+  amounts: Partial<Record<NutrientKey, number>> = {},
+): DietRow => ({
+  name,
+  getAmount: (nutrient) => amounts[nutrient] ?? 0,
+  hasData: (nutrient) => amounts[nutrient] !== undefined,
+})
+
+const evaluate = (
+  id: DietRuleSetId,
+  rows: Array<DietRow>,
+  overrides?: Record<string, string>,
+) => {
+  const ruleSet = DIET_RULE_SETS.find((candidate) => candidate.id === id)
+  return ruleSet ? evaluateRuleSet(ruleSet, rows, overrides) : []
+}
+
+const limit = (bounds: { max?: number; min?: number }) => ({
+  metric: 'sodium' as LimitMetric,
+  label: 'Sodium',
+  unit: 'mg',
+  ...bounds,
+})
+
+describe('getLimitStatus', () => {
+  it('warns close to a maximum and fails beyond it', () => {
+    expect(getLimitStatus(400, limit({ max: 600 }))).toBe('pass')
+    expect(getLimitStatus(500, limit({ max: 600 }))).toBe('warn')
+    expect(getLimitStatus(700, limit({ max: 600 }))).toBe('fail')
+  })
+
+  it('fails below a minimum', () => {
+    expect(getLimitStatus(4, limit({ min: 5 }))).toBe('fail')
+    expect(getLimitStatus(6, limit({ min: 5 }))).toBe('pass')
+  })
+})
+
+describe('getNetCarbs', () => {
+  it('takes fiber and polyols off the carbs, never below zero', () => {
+    const amounts: Partial<Record<NutrientKey, number>> = {
+      carbs: 30,
+      fiber: 8,
+      polyols: 2,
+    }
+    expect(getNetCarbs((nutrient) => amounts[nutrient] ?? 0)).toBe(20)
+    expect(getNetCarbs((nutrient) => (nutrient === 'fiber' ? 5 : 0))).toBe(0)
+  })
+})
+
+describe('evaluateRuleSet', () => {
+  it('sums the rows and names the largest contributors', () => {
+    const [sodium] = evaluate('low-sodium', [
+      row('soy sauce', { sodium: 500 }),
+      row('rice', { sodium: 5 }),
+      row('salt', { sodium: 300 }),
+    ])
+    expect(sodium.status).toBe('fail')
+    expect(sodium.bound).toBe('max')
+    expect(sodium.detail).toBe('805 mg per serving, limit 600 mg')
+    expect(sodium.contributors).toEqual([
+      'soy sauce (500 mg)',
+      'salt (300 mg)',
+      'rice (5 mg)',
+    ])
+  })
+
+  it('reports a missed minimum without contributors', () => {
+    const fiber = evaluate('diabetic', [row('white rice', { fiber: 1 })]).find(
+      (check) => check.label === 'Fiber',
+    )
+    expect(fiber?.status).toBe('fail')
+    expect(fiber?.bound).toBe('min')
+    expect(fiber?.contributors).toEqual([])
+  })
+
+  it('reports no data when no row carries the nutrient', () => {
+    const [sodium] = evaluate('low-sodium', [row('pasta', { carbs: 70 })])
+    expect(sodium.status).toBe('unknown')
+    expect(sodium.detail).toBe('no sodium data in the recipe')
+
+    const [netCarbs] = evaluate('keto', [row('butter', { fat: 80 })])
+    expect(netCarbs.status).toBe('unknown')
+  })
+
+  it('applies bounds typed by the user', () => {
+    const [sodium] = evaluate('low-sodium', [row('ham', { sodium: 700 })], {
+      'low-sodium.sodium.max': '1000',
+    })
+    expect(sodium.status).toBe('pass')
+  })
+
+  it('lists ingredients to avoid', () => {
+    const [fodmap] = evaluate('low-fodmap', [
+      row('red onions'),
+      row('garlic cloves'),
+      row('rice'),
+    ])
+    expect(fodmap.status).toBe('fail')
+    expect(fodmap.contributors).toEqual(['red onions', 'garlic cloves'])
+    expect(evaluate('low-fodmap', [row('rice')])[0].status).toBe('pass')
+  })
+})
@@ -0,0 +1,228 @@
+import type { NutrientKey } from '@/lib/nutrients'
+import { matchesAnyKeyword } from '@/lib/keywords'
+import { formatDecimal } from '@/lib/quantity'
+
+export type DietRuleSetId =
+  | 'low-sodium'
+  | 'keto'
+  | 'diabetic'
+  | 'renal'
+  | 'low-fodmap'
+
+export type LimitMetric = NutrientKey | 'netCarbs'
+
+// Unknown when no row carries the nutrient at all
+export type LimitStatus = 'pass' | 'warn' | 'fail' | 'unknown'
+
+export type DietLimit = {
+  metric: LimitMetric
+  label: string
+  unit: string
+  // Per-serving bounds; a rule set may be customized through overrides
+  max?: number
+  min?: number
+}
+
+export type DietRuleSet = {
+  id: DietRuleSetId
+  label: string
+  limits: Array<DietLimit>
+  // Ingredients to avoid altogether, matched on the row name
+  avoid?: { label: string; keywords: Array<string> }
+}
+
+// A row of the adjusted recipe with its amounts in one serving
+export type DietRow = {
+  name: string
+  getAmount: (nutrient: NutrientKey) => number
+  // Whether the row has a value for the nutrient, as a missing one reads 0
+  hasData: (nutrient: NutrientKey) => boolean
+}
+
+export type DietCheck = {
+  label: string
+  status: LimitStatus
+  // Bound the value is checked against, none for ingredients to avoid
+  bound?: 'min' | 'max'
+  detail: string
+  // Rows contributing most to a violation, largest first
+  contributors: Array<string>
+}
+
+// Share of a maximum from which a value is flagged as close to the limit
+export const WARNING_SHARE = 0.8
+const MAX_CONTRIBUTORS = 3
+
+export const DIET_RULE_SETS: Array<DietRuleSet> = [
+  {
+    id: 'low-sodium',
+    label: 'Low sodium',
+    limits: [{ metric: 'sodium', label: 'Sodium', unit: 'mg', max: 600 }],
+  },
+  {
+    id: 'keto',
+    label: 'Keto',
+    limits: [{ metric: 'netCarbs', label: 'Net carbs', unit: 'g', max: 20 }],
+  },
+  {
+    id: 'diabetic',
+    label: 'Diabetic',
+    limits: [
+      { metric: 'carbs', label: 'Carbs', unit: 'g', max: 60 },
+      { metric: 'addedSugars', label: 'Added sugars', unit: 'g', max: 10 },
+      { metric: 'fiber', label: 'Fiber', unit: 'g', min: 5 },
+    ],
+  },
+  {
+    id: 'renal',
+    label: 'Renal',
+    limits: [
+      { metric: 'sodium', label: 'Sodium', unit: 'mg', max: 700 },
+      { metric: 'potassium', label: 'Potassium', unit: 'mg', max: 700 },
+      { metric: 'protein', label: 'Protein', unit: 'g', max: 25 },
+    ],
+  },
+  {
+    id: 'low-fodmap',
+    label: 'Low FODMAP',
+    limits: [],
+    avoid: {
+      label: 'High-FODMAP ingredients',
+      keywords: [
+        'onion',
+        'garlic',
+        'shallot',
+        'leek',
+        'wheat',
+        'rye',
+        'honey',
+        'agave',
+        'apple',
+        'pear',
+        'mango',
+        'watermelon',
+        'cauliflower',
+        'mushroom',
+        'chickpea',
+        'lentil',
+        'kidney bean',
+        'baked bean',
+        'milk',
+        'ricotta',
+        'cashew',
+        'pistachio',
+      ],
+    },
+  },
+]
+
+// Available carbohydrate: the entered total without fiber and polyols
+export function getNetCarbs(getAmount: (nutrient: NutrientKey) => number) {
+  return Math.max(
+    getAmount('carbs') - getAmount('fiber') - getAmount('polyols'),
+    0,
+  )
+}
+
+const getMetric = (row: DietRow, metric: LimitMetric) =>
+  metric === 'netCarbs' ? getNetCarbs(row.getAmount) : row.getAmount(metric)
+
+const hasMetric = (row: DietRow, metric: LimitMetric) =>
+  row.hasData(metric === 'netCarbs' ? 'carbs' : metric)
+
+export function getLimitStatus(value: number, limit: DietLimit): LimitStatus {
+  if (limit.max !== undefined) {
+    if (value > limit.max) return 'fail'
+    if (value > limit.max * WARNING_SHARE) return 'warn'
+  }
+  if (limit.min !== undefined && value < limit.min) return 'fail'
+  return 'pass'
+}
+
+const formatAmount = (value: number, unit: string) =>
+  `${formatDecimal(value, 1)} ${unit}`
+
+// Key under which a customized bound is stored, e.g. "keto.netCarbs.max"
+export const getLimitKey = (
+  ruleSet: DietRuleSetId,
+  limit: DietLimit,
+  bound: 'min' | 'max',
+) => `${ruleSet}.${limit.metric}.${bound}`
+
+// Checks one rule set against the per-serving amounts of the rows. Bounds
+// typed by the user replace the defaults.
+export function evaluateRuleSet(
+  ruleSet: DietRuleSet,
+  rows: Array<DietRow>,
+  overrides: Record<string, string> = {},
+): Array<DietCheck> {
+  const checks = ruleSet.limits.map((defaults): DietCheck => {
+    const override = (bound: 'min' | 'max') => {
+      const value = Number.parseFloat(
+        overrides[getLimitKey(ruleSet.id, defaults, bound)] ?? '',
+      )
+      return isNaN(value) ? defaults[bound] : value
+    }
+    const limit = { ...defaults, max: override('max'), min: override('min') }
+    const bound = limit.max !== undefined ? 'max' : 'min'
+
+    if (!rows.some((row) => hasMetric(row, limit.metric))) {
+      return {
+        label: limit.label,
+        status: 'unknown',
+        bound,
+        detail: `no ${limit.label.toLowerCase()} data in the recipe`,
+        contributors: [],
+      }
+    }
+
+    const amounts = rows.map((row) => ({
+      name: row.name,
+      value: getMetric(row, limit.metric),
+    }))
+    const value = amounts.reduce((total, amount) => total + amount.value, 0)
+    const status = getLimitStatus(value, limit)
+    const boundText =
+      limit.max !== undefined
+        ? `limit ${formatAmount(limit.max, limit.unit)}`
+        : `at least ${formatAmount(limit.min ?? 0, limit.unit)}`
+
+    return {
+      label: limit.label,
+      status,
+      bound,
+      detail: `${formatAmount(value, limit.unit)} per serving, ${boundText}`,
+      // Only an excess has rows to blame
+      contributors:
+        status !== 'pass' && limit.max !== undefined
+          ? amounts
+              .filter((amount) => amount.value > 0)
+              .sort((a, b) => b.value - a.value)
+              .slice(0, MAX_CONTRIBUTORS)
+              .map(
+                (amount) =>
+                  `${amount.name} (${formatAmount(amount.value, limit.unit)})`,
+              )
+          : [],
+    }
+  })
+
+  if (ruleSet.avoid) {
+    const { label, keywords } = ruleSet.avoid
+    const offenders = rows
+      .filter((row) => matchesAnyKeyword(row.name, keywords, 'prefix'))
+      .map((row) => row.name)
+
+    checks.push({
+      label,
+      status: offenders.length > 0 ? 'fail' : 'pass',
+      detail:
+        offenders.length > 0
+          ? `${offenders.length} to replace`
+          : 'none in the recipe',
+      contributors: offenders,
+    })
+  }
+
+  return checks
+}
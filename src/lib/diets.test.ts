@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import type { DietTag } from '@/lib/diets'
+import type { Ingredient } from '@/lib/types'
+import { classifyRecipe, formatDietReason } from '@/lib/diets'
+
+const ingredient = (fields: Partial<Ingredient>): Ingredient => ({
+  name: '',
+  quantity: '',
+  unit: 'g',
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  ...fields,
+})
+
+const classify = (names: Array<string>, tag: DietTag) =>
+  classifyRecipe(names.map((name) => ingredient({ name }))).find(
+    (classification) => classification.tag === tag,
+  )
+
+describe('classifyRecipe', () => {
+  it('fails a tag on the rows that break it', () => {
+    const vegan = classify(['flour', 'honey', 'butter', ''], 'vegan')
+    expect(vegan?.passes).toBe(false)
+    expect(vegan?.offenders).toEqual(['honey', 'butter'])
+    expect(classify(['flour', 'sugar'], 'vegan')?.passes).toBe(true)
+    expect(classify(['cod fillet'], 'vegetarian')?.passes).toBe(false)
+    expect(classify(['cod fillet'], 'pescatarian')?.passes).toBe(true)
+  })
+
+  it('reads plant-based versions of animal products as vegan', () => {
+    expect(classify(['vegan mayo'], 'vegan')?.passes).toBe(true)
+    expect(classify(['vegan butter'], 'vegan')?.passes).toBe(true)
+    expect(classify(['vegan butter'], 'dairy-free')?.passes).toBe(true)
+    expect(classify(['oat milk'], 'dairy-free')?.passes).toBe(true)
+  })
+
+  it('uses allergens for gluten and nuts', () => {
+    expect(classify(['plain flour'], 'gluten-free')?.passes).toBe(false)
+    expect(classify(['rice flour'], 'gluten-free')?.passes).toBe(true)
+    expect(classify(['walnuts'], 'nut-free')?.passes).toBe(false)
+  })
+
+  it('ignores dismissed allergens', () => {
+    const rows = [
+      ingredient({ name: 'plain flour', allergens: { gluten: false } }),
+    ]
+    const glutenFree = classifyRecipe(rows).find(
+      ({ tag }) => tag === 'gluten-free',
+    )
+    expect(glutenFree?.passes).toBe(true)
+  })
+})
+
+describe('formatDietReason', () => {
+  it('lists the offending rows', () => {
+    const vegan = classify(['honey', 'butter'], 'vegan')
+    expect(vegan && formatDietReason(vegan)).toBe(
+      'not vegan: contains honey, butter',
+    )
+  })
+})
@@ -0,0 +1,118 @@
+import type { AllergenId } from '@/lib/allergens'
+import type { FoodCategory } from '@/lib/food-categories'
+import type { Ingredient } from '@/lib/types'
+import { getIngredientAllergens } from '@/lib/allergens'
+import { getFoodCategories } from '@/lib/food-categories'
+
+export type DietTag =
+  | 'vegan'
+  | 'vegetarian'
+  | 'pescatarian'
+  | 'gluten-free'
+  | 'dairy-free'
+  | 'nut-free'
+
+type DietRule = {
+  tag: DietTag
+  label: string
+  // A recipe fails the tag as soon as one row falls in one of these.
+  // Animal products go by category only, as the category keywords know that
+  // "vegan butter" is no dairy while the milk allergen still flags it.
+  categories: Array<FoodCategory>
+  allergens: Array<AllergenId>
+}
+
+export type DietClassification = {
+  tag: DietTag
+  label: string
+  passes: boolean
+  // Names of the rows that break the rule
+  offenders: Array<string>
+}
+
+export const DIET_RULES: Array<DietRule> = [
+  {
+    tag: 'vegan',
+    label: 'Vegan',
+    categories: [
+      'meat',
+      'poultry',
+      'fish',
+      'shellfish',
+      'dairy',
+      'egg',
+      'honey',
+      'gelatin',
+    ],
+    allergens: [],
+  },
+  {
+    tag: 'vegetarian',
+    label: 'Vegetarian',
+    categories: ['meat', 'poultry', 'fish', 'shellfish', 'gelatin'],
+    allergens: [],
+  },
+  {
+    tag: 'pescatarian',
+    label: 'Pescatarian',
+    categories: ['meat', 'poultry', 'gelatin'],
+    allergens: [],
+  },
+  {
+    tag: 'gluten-free',
+    label: 'Gluten-free',
+    categories: [],
+    allergens: ['gluten'],
+  },
+  {
+    tag: 'dairy-free',
+    label: 'Dairy-free',
+    categories: ['dairy'],
+    allergens: [],
+  },
+  {
+    tag: 'nut-free',
+    label: 'Nut-free',
+    categories: ['nut'],
+    allergens: ['peanuts', 'tree-nuts'],
+  },
+]
+
+// Evaluates every diet rule against the named rows. Allergens count with
+// the row's overrides, so a dismissed detection does not fail a tag.
+export function classifyRecipe(
+  ingredients: Array<Ingredient>,
+): Array<DietClassification> {
+  const rows = ingredients
+    .filter((ingredient) => ingredient.name.trim())
+    .map((ingredient) => ({
+      name: ingredient.name.trim(),
+      categories: getFoodCategories(ingredient),
+      allergens: getIngredientAllergens(ingredient)
+        .filter(({ status }) => status !== 'dismissed')
+        .map(({ id }) => id),
+    }))
+
+  return DIET_RULES.map((rule) => {
+    const offenders = rows
+      .filter(
+        (row) =>
+          row.categories.some((category) =>
+            rule.categories.includes(category),
+          ) || row.allergens.some((id) => rule.allergens.includes(id)),
+      )
+      .map((row) => row.name)
+
+    return {
+      tag: rule.tag,
+      label: rule.label,
+      passes: offenders.length === 0,
+      offenders,
+    }
+  })
+}
+
+// "not vegan: contains honey, butter"
+export function formatDietReason(classification: DietClassification) {
+  return `not ${classification.label.toLowerCase()}: contains ${classification.offenders.join(', ')}`
+}
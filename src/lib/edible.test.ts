@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import {
+  findEdiblePortion,
+  getEdibleShare,
+  toEdibleQuantity,
+  toPurchasedQuantity,
+} from '@/lib/edible'
+
+describe('findEdiblePortion', () => {
+  it('finds whole foods by name, plurals included', () => {
+    expect(findEdiblePortion('Bananas')?.percentage).toBe(65)
+    expect(findEdiblePortion('whole chicken')?.percentage).toBe(65)
+    expect(findEdiblePortion('chicken thighs')?.percentage).toBe(70)
+    expect(findEdiblePortion('mangoes')?.percentage).toBe(70)
+    expect(findEdiblePortion('cantaloupe melons')?.percentage).toBe(50)
+  })
+
+  it('keeps the weight of trimmed cuts and processed forms', () => {
+    expect(findEdiblePortion('boneless chicken thigh')?.percentage).toBe(100)
+    expect(findEdiblePortion('pineapple juice')).toBeUndefined()
+    expect(findEdiblePortion('onion powder')).toBeUndefined()
+    expect(findEdiblePortion('mashed potatoes')).toBeUndefined()
+  })
+})
+
+describe('getEdibleShare', () => {
+  it('prefers an explicit percentage over the table', () => {
+    expect(getEdibleShare({ name: 'banana', ediblePortion: '80' })).toBe(0.8)
+    expect(getEdibleShare({ name: 'banana', ediblePortion: '120' })).toBe(0.65)
+    expect(getEdibleShare({ name: 'sugar' })).toBe(1)
+  })
+})
+
+describe('toEdibleQuantity and toPurchasedQuantity', () => {
+  it('converts between the purchased and the edible weight', () => {
+    const purchased = { name: 'pineapple' }
+    const edible = { name: 'pineapple', weightBasis: 'edible' as const }
+
+    expect(toEdibleQuantity(1000, purchased)).toBe(500)
+    expect(toPurchasedQuantity(1000, purchased)).toBe(1000)
+    expect(toEdibleQuantity(500, edible)).toBe(500)
+    expect(toPurchasedQuantity(500, edible)).toBe(1000)
+  })
+})
@@ -0,0 +1,110 @@
+import type { Ingredient } from '@/lib/types'
+import { matchesAnyKeyword } from '@/lib/keywords'
+
+export type WeightBasis = 'purchased' | 'edible'
+
+type EdiblePortion = {
+  name: string
+  keywords: Array<string>
+  // Share of the purchased weight that is eaten, in percent
+  percentage: number
+}
+
+// Typical edible portions after bones, skin, peel and shells are trimmed.
+// Boneless cuts come first so that "boneless chicken thigh" keeps its weight.
+export const EDIBLE_PORTIONS: Array<EdiblePortion> = [
+  {
+    name: 'Trimmed cuts',
+    keywords: ['boneless', 'fillet', 'filet', 'peeled'],
+    percentage: 100,
+  },
+  {
+    name: 'Whole fish',
+    keywords: ['whole fish', 'whole trout', 'whole salmon', 'whole sea bass'],
+    percentage: 45,
+  },
+  { name: 'Whole chicken', keywords: ['whole chicken'], percentage: 65 },
+  {
+    name: 'Bone-in chicken',
+    keywords: [
+      'bone-in',
+      'chicken thigh',
+      'chicken leg',
+      'drumstick',
+      'chicken wing',
+    ],
+    percentage: 70,
+  },
+  { name: 'Mussels and clams', keywords: ['mussel', 'clam'], percentage: 40 },
+  { name: 'Potatoes', keywords: ['potato'], percentage: 85 },
+  { name: 'Carrots', keywords: ['carrot'], percentage: 85 },
+  { name: 'Onions', keywords: ['onion'], percentage: 90 },
+  { name: 'Bananas', keywords: ['banana'], percentage: 65 },
+  { name: 'Avocados', keywords: ['avocado'], percentage: 74 },
+  { name: 'Mangoes', keywords: ['mango'], percentage: 70 },
+  { name: 'Pineapple', keywords: ['pineapple'], percentage: 50 },
+  { name: 'Melons', keywords: ['melon'], percentage: 50 },
+]
+
+// Processed forms are bought ready to eat, so "pineapple juice" or "onion
+// powder" keep their whole weight
+const PROCESSED_KEYWORDS = [
+  'juice',
+  'powder',
+  'starch',
+  'flour',
+  'canned',
+  'tinned',
+  'can',
+  'tin',
+  'dried',
+  'chutney',
+  'jam',
+  'puree',
+  'purée',
+  'paste',
+  'sauce',
+  'syrup',
+  'oil',
+  'chips',
+  'flakes',
+  'stock',
+  'broth',
+  'mashed',
+]
+
+export function findEdiblePortion(name: string): EdiblePortion | undefined {
+  if (matchesAnyKeyword(name, PROCESSED_KEYWORDS)) return undefined
+
+  return EDIBLE_PORTIONS.find((food) => matchesAnyKeyword(name, food.keywords))
+}
+
+// Resolves the eaten share of a row between 0 and 1: an explicit percentage
+// wins over the built-in table, and unknown foods are eaten whole
+export function getEdibleShare(
+  ingredient: Pick<Ingredient, 'name' | 'ediblePortion'>,
+) {
+  const percentage = Number.parseFloat(ingredient.ediblePortion ?? '')
+  if (percentage > 0 && percentage <= 100) return percentage / 100
+
+  return (findEdiblePortion(ingredient.name)?.percentage ?? 100) / 100
+}
+
+// Quantities are typed as purchased weight unless the row says otherwise
+export function toEdibleQuantity(
+  quantity: number,
+  ingredient: Pick<Ingredient, 'name' | 'ediblePortion' | 'weightBasis'>,
+) {
+  return ingredient.weightBasis === 'edible'
+    ? quantity
+    : quantity * getEdibleShare(ingredient)
+}
+
+export function toPurchasedQuantity(
+  quantity: number,
+  ingredient: Pick<Ingredient, 'name' | 'ediblePortion' | 'weightBasis'>,
+) {
+  return ingredient.weightBasis === 'edible'
+    ? quantity / getEdibleShare(ingredient)
+    : quantity
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import type { NutrientKey } from '@/lib/nutrients'
+import {
+  getComputedEnergy,
+  getEnergyBreakdown,
+  getEnergyDiscrepancy,
+  roundToHundred,
+  toEnergyUnit,
+} from '@/lib/energy'
+
+const totals =
+  (amounts: Partial<Record<NutrientKey, number>>) => (nutrient: NutrientKey) =>
+    amounts[nutrient] ?? 0
+
+describe('getComputedEnergy', () => {
+  it('adds up the parts with the EU factors', () => {
+    expect(
+      getComputedEnergy(
+        totals({ protein: 10, carbs: 30, fiber: 5, fat: 10, calories: 300 }),
+      ),
+    ).toEqual({ kcal: 240, kJ: 1005 })
+  })
+
+  it('falls back to the entered calories without macros', () => {
+    const energy = getComputedEnergy(totals({ calories: 100 }))
+    expect(energy.kcal).toBe(100)
+    expect(energy.kJ).toBeCloseTo(418.4)
+  })
+})
+
+describe('toEnergyUnit', () => {
+  it('converts kilocalories to kilojoules', () => {
+    expect(toEnergyUnit(100, 'kcal')).toBe(100)
+    expect(toEnergyUnit(100, 'kJ')).toBeCloseTo(418.4)
+  })
+})
+
+describe('roundToHundred', () => {
+  it('rounds shares to whole percentages summing to 100', () => {
+    expect(roundToHundred([1, 1, 1])).toEqual([34, 33, 33])
+    expect(roundToHundred([2, 1, 1])).toEqual([50, 25, 25])
+    expect(roundToHundred([0, 0])).toEqual([0, 0])
+  })
+})
+
+describe('getEnergyBreakdown', () => {
+  it('lists energy beyond the parts as unaccounted', () => {
+    const breakdown = getEnergyBreakdown(
+      totals({ protein: 10, carbs: 30, fiber: 5, fat: 10, calories: 300 }),
+    )
+    expect(breakdown?.declaredKcal).toBe(300)
+    expect(breakdown?.computedKcal).toBe(240)
+    expect(
+      breakdown?.sources.find(({ key }) => key === 'unaccounted'),
+    ).toMatchObject({ kcal: 60, percent: 20 })
+    expect(breakdown?.sources.find(({ key }) => key === 'fat')?.percent).toBe(
+      30,
+    )
+    expect(
+      breakdown?.sources.reduce((sum, source) => sum + source.percent, 0),
+    ).toBe(100)
+    expect(breakdown && getEnergyDiscrepancy(breakdown)).toBeCloseTo(0.2)
+  })
+
+  it('has nothing to break down without energy', () => {
+    expect(getEnergyBreakdown(totals({}))).toBeNull()
+  })
+})
@@ -0,0 +1,149 @@
+import type { NutrientKey } from '@/lib/nutrients'
+
+export type EnergyUnit = 'kcal' | 'kJ'
+
+export const KJ_PER_KCAL = 4.184
+
+// Entered energy and the energy of its parts may differ by this share
+// before the breakdown flags a likely data-entry error
+export const ENERGY_TOLERANCE = 0.1
+
+export type EnergySourceKey =
+  | 'protein'
+  | 'carbs'
+  | 'fiber'
+  | 'polyols'
+  | 'fat'
+  | 'alcohol'
+  | 'unaccounted'
+
+export type EnergySource = {
+  key: EnergySourceKey
+  label: string
+  kcal: number
+  // Share of the total energy, rounded so that all shares sum to 100
+  percent: number
+}
+
+export type EnergyBreakdown = {
+  sources: Array<EnergySource>
+  // Calories as entered on the rows and as computed from their parts
+  declaredKcal: number
+  computedKcal: number
+}
+
+// Energy conversion factors per gram, as in Annex XIV of EU Regulation
+// 1169/2011. Fiber and polyols are part of the entered total carbohydrate,
+// so only the rest counts as available carbs.
+const ENERGY_FACTORS: Array<{
+  key: Exclude<EnergySourceKey, 'unaccounted'>
+  label: string
+  kcalPerGram: number
+  kJPerGram: number
+}> = [
+  { key: 'protein', label: 'Protein', kcalPerGram: 4, kJPerGram: 17 },
+  { key: 'carbs', label: 'Carbs', kcalPerGram: 4, kJPerGram: 17 },
+  { key: 'fiber', label: 'Fiber', kcalPerGram: 2, kJPerGram: 8 },
+  { key: 'polyols', label: 'Polyols', kcalPerGram: 2.4, kJPerGram: 10 },
+  { key: 'fat', label: 'Fat', kcalPerGram: 9, kJPerGram: 37 },
+  { key: 'alcohol', label: 'Alcohol', kcalPerGram: 7, kJPerGram: 29 },
+]
+
+const getEnergyGrams = (getTotal: (nutrient: NutrientKey) => number) => ({
+  protein: getTotal('protein'),
+  carbs: Math.max(
+    getTotal('carbs') - getTotal('fiber') - getTotal('polyols'),
+    0,
+  ),
+  fiber: getTotal('fiber'),
+  polyols: getTotal('polyols'),
+  fat: getTotal('fat'),
+  alcohol: getTotal('alcohol'),
+})
+
+// Energy computed from the parts with the conversion factors, falling back
+// to the entered calories when no macros are known
+export function getComputedEnergy(
+  getTotal: (nutrient: NutrientKey) => number,
+): { kcal: number; kJ: number } {
+  const grams = getEnergyGrams(getTotal)
+  const energy = ENERGY_FACTORS.reduce(
+    (sum, factor) => ({
+      kcal: sum.kcal + grams[factor.key] * factor.kcalPerGram,
+      kJ: sum.kJ + grams[factor.key] * factor.kJPerGram,
+    }),
+    { kcal: 0, kJ: 0 },
+  )
+  if (energy.kcal > 0) return energy
+
+  const declared = getTotal('calories')
+  return { kcal: declared, kJ: declared * KJ_PER_KCAL }
+}
+
+export function toEnergyUnit(kcal: number, unit: EnergyUnit) {
+  return unit === 'kJ' ? kcal * KJ_PER_KCAL : kcal
+}
+
+// Rounds shares to whole percentages that still sum to 100 by handing the
+// leftover points to the largest remainders (Hamilton's method)
+export function roundToHundred(values: Array<number>): Array<number> {
+  const total = values.reduce((sum, value) => sum + value, 0)
+  if (total <= 0) return values.map(() => 0)
+
+  const exact = values.map((value) => (value / total) * 100)
+  const rounded = exact.map(Math.floor)
+  let leftover = 100 - rounded.reduce((sum, value) => sum + value, 0)
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break
+    rounded[index] += 1
+    leftover -= 1
+  }
+  return rounded
+}
+
+// Splits the energy of a batch into its sources. Energy entered on the rows
+// beyond what the parts explain is listed as unaccounted; parts that
+// explain more than was entered make up the whole instead.
+export function getEnergyBreakdown(
+  getTotal: (nutrient: NutrientKey) => number,
+): EnergyBreakdown | null {
+  const grams = getEnergyGrams(getTotal)
+  const parts = ENERGY_FACTORS.map((factor) => ({
+    key: factor.key as EnergySourceKey,
+    label: factor.label,
+    kcal: grams[factor.key] * factor.kcalPerGram,
+  }))
+
+  const declaredKcal = getTotal('calories')
+  const computedKcal = parts.reduce((sum, part) => sum + part.kcal, 0)
+  if (declaredKcal <= 0 && computedKcal <= 0) return null
+
+  parts.push({
+    key: 'unaccounted',
+    label: 'Unaccounted',
+    kcal: Math.max(declaredKcal - computedKcal, 0),
+  })
+  const percentages = roundToHundred(parts.map((part) => part.kcal))
+
+  return {
+    sources: parts.map((part, index) => ({
+      ...part,
+      percent: percentages[index],
+    })),
+    declaredKcal,
+    computedKcal,
+  }
+}
+
+// Relative gap between entered and computed energy, positive when more was
+// entered than the parts explain
+export function getEnergyDiscrepancy({
+  declaredKcal,
+  computedKcal,
+}: EnergyBreakdown) {
+  return (declaredKcal - computedKcal) / Math.max(declaredKcal, computedKcal)
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import type { NutrientKey } from '@/lib/nutrients'
+import { getEuDeclaration } from '@/lib/eu-label'
+
+const totals: Partial<Record<NutrientKey, number>> = {
+  fat: 20,
+  saturatedFat: 0.2,
+  carbs: 102,
+  fiber: 10,
+  sugars: 0,
+  protein: 48,
+  sodium: 400,
+}
+const getTotal = (nutrient: NutrientKey) => totals[nutrient] ?? 0
+
+describe('getEuDeclaration', () => {
+  const rows = getEuDeclaration(getTotal, 400, 4)
+  const row = (key: string) => rows.find((candidate) => candidate.key === key)
+
+  it('computes energy from the macronutrients with EU factors', () => {
+    expect(row('energy')?.per100g).toEqual(['800 kJ', '190 kcal'])
+    expect(row('energy')?.perPortion).toEqual(['800 kJ', '190 kcal'])
+    expect(row('energy')?.referenceIntake).toBe(10)
+  })
+
+  it('declares available carbohydrate and salt from sodium', () => {
+    expect(row('carbohydrate')?.per100g).toEqual(['23 g'])
+    expect(row('salt')?.per100g).toEqual(['0.25 g'])
+    expect(row('salt')?.referenceIntake).toBe(4)
+  })
+
+  it('applies the rounding guidelines', () => {
+    expect(row('fat')?.per100g).toEqual(['5 g'])
+    expect(row('saturates')?.per100g).toEqual(['<0.1 g'])
+    expect(row('sugars')?.per100g).toEqual(['0 g'])
+    expect(row('protein')?.per100g).toEqual(['12 g'])
+  })
+
+  it('leaves out per 100 g when the batch cannot be weighed', () => {
+    const unweighed = getEuDeclaration(getTotal, null, 4)
+    expect(unweighed.every((candidate) => candidate.per100g === null)).toBe(
+      true,
+    )
+    expect(unweighed.at(0)?.perPortion).toEqual(['800 kJ', '190 kcal'])
+  })
+
+  it('has nothing per portion for an empty batch', () => {
+    const empty = getEuDeclaration(() => 0, null, 0)
+    expect(empty.at(0)?.perPortion).toEqual(['0 kJ', '0 kcal'])
+  })
+})
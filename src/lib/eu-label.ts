@@ -0,0 +1,129 @@
+import type { NutrientKey } from '@/lib/nutrients'
+import { getComputedEnergy } from '@/lib/energy'
+import { STANDARD_SERVING } from '@/lib/nutrition'
+import { formatDecimal } from '@/lib/quantity'
+
+// Salt is declared instead of sodium (Annex I of EU Regulation 1169/2011)
+export const SALT_PER_SODIUM = 2.5
+
+export type EuDeclarationRow = {
+  key:
+    | 'energy'
+    | 'fat'
+    | 'saturates'
+    | 'carbohydrate'
+    | 'sugars'
+    | 'protein'
+    | 'salt'
+  label: string
+  // Rounded amounts with their units, two lines for energy in kJ and kcal.
+  // Per 100 g is null when the batch cannot be weighed.
+  per100g: Array<string> | null
+  perPortion: Array<string>
+  // Share of the reference intake in one portion, in whole percent
+  referenceIntake: number
+  depth: number
+}
+
+// Reference intakes of an average adult (Annex XIII, part B)
+export const REFERENCE_INTAKES = {
+  energy: 8400,
+  fat: 70,
+  saturates: 20,
+  carbohydrate: 260,
+  sugars: 90,
+  protein: 50,
+  salt: 6,
+}
+
+// Rounding guidelines of the European Commission for nutrition labelling
+const roundMacro = (grams: number) => {
+  if (grams <= 0) return '0 g'
+  if (grams <= 0.5) return '<0.5 g'
+  return `${formatDecimal(grams, grams >= 10 ? 0 : 1)} g`
+}
+
+const roundSaturates = (grams: number) => {
+  if (grams <= 0) return '0 g'
+  if (grams <= 0.1) return '<0.1 g'
+  return `${formatDecimal(grams, grams >= 10 ? 0 : 1)} g`
+}
+
+const roundSalt = (grams: number) => {
+  if (grams <= 0) return '0 g'
+  if (grams <= 0.0125) return '<0.01 g'
+  return `${formatDecimal(grams, grams >= 1 ? 1 : 2)} g`
+}
+
+const formatEnergy = ({ kcal, kJ }: { kcal: number; kJ: number }) => [
+  `${Math.round(kJ)} kJ`,
+  `${Math.round(kcal)} kcal`,
+]
+
+// Builds the mandatory declaration from batch totals. Carbohydrate is the
+// available carbohydrate, so fiber is taken off the entered total.
+export function getEuDeclaration(
+  getTotal: (nutrient: NutrientKey) => number,
+  batchGrams: number | null,
+  portions: number,
+): Array<EuDeclarationRow> {
+  const grams = {
+    fat: getTotal('fat'),
+    saturates: getTotal('saturatedFat'),
+    carbohydrate: Math.max(getTotal('carbs') - getTotal('fiber'), 0),
+    sugars: getTotal('sugars'),
+    protein: getTotal('protein'),
+    salt: (getTotal('sodium') / 1000) * SALT_PER_SODIUM,
+  }
+  const energy = getComputedEnergy(getTotal)
+
+  const per100g = (amount: number) =>
+    batchGrams ? (amount / batchGrams) * STANDARD_SERVING : null
+  const perPortion = (amount: number) => (portions > 0 ? amount / portions : 0)
+  const intake = (amount: number, reference: number) =>
+    Math.round((perPortion(amount) / reference) * 100)
+
+  const row = (
+    key: Exclude<EuDeclarationRow['key'], 'energy'>,
+    label: string,
+    round: (amount: number) => string,
+    depth = 0,
+  ): EuDeclarationRow => {
+    const per100 = per100g(grams[key])
+    return {
+      key,
+      label,
+      per100g: per100 === null ? null : [round(per100)],
+      perPortion: [round(perPortion(grams[key]))],
+      referenceIntake: intake(grams[key], REFERENCE_INTAKES[key]),
+      depth,
+    }
+  }
+
+  const energyPer100 = per100g(1)
+  return [
+    {
+      key: 'energy',
+      label: 'Energy',
+      per100g:
+        energyPer100 === null
+          ? null
+          : formatEnergy({
+              kcal: energy.kcal * energyPer100,
+              kJ: energy.kJ * energyPer100,
+            }),
+      perPortion: formatEnergy({
+        kcal: perPortion(energy.kcal),
+        kJ: perPortion(energy.kJ),
+      }),
+      referenceIntake: intake(energy.kJ, REFERENCE_INTAKES.energy),
+      depth: 0,
+    },
+    row('fat', 'Fat', roundMacro),
+    row('saturates', 'of which saturates', roundSaturates, 1),
+    row('carbohydrate', 'Carbohydrate', roundMacro),
+    row('sugars', 'of which sugars', roundMacro, 1),
+    row('protein', 'Protein', roundMacro),
+    row('salt', 'Salt', roundSalt),
+  ]
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import type { NutrientKey } from '@/lib/nutrients'
+import {
+  formatServingsPerContainer,
+  getFdaLabel,
+  roundCalories,
+  roundVitaminDailyValue,
+} from '@/lib/fda-label'
+
+const perServing =
+  (values: Partial<Record<NutrientKey, number>>) => (nutrient: NutrientKey) =>
+    values[nutrient] ?? 0
+
+describe('roundCalories', () => {
+  it('rounds to 5 up to 50 kcal and to 10 above', () => {
+    expect(roundCalories(4)).toBe(0)
+    expect(roundCalories(47)).toBe(45)
+    expect(roundCalories(52)).toBe(50)
+    expect(roundCalories(126)).toBe(130)
+  })
+})
+
+describe('roundVitaminDailyValue', () => {
+  it('steps in 2, 5 and 10 percent', () => {
+    expect(roundVitaminDailyValue(1.5)).toBe(0)
+    expect(roundVitaminDailyValue(7)).toBe(8)
+    expect(roundVitaminDailyValue(23)).toBe(25)
+    expect(roundVitaminDailyValue(57)).toBe(60)
+  })
+})
+
+describe('getFdaLabel', () => {
+  const label = getFdaLabel(
+    perServing({
+      calories: 247,
+      fat: 3.3,
+      saturatedFat: 0.4,
+      cholesterol: 3,
+      sodium: 143,
+      carbs: 31,
+      fiber: 0.7,
+      protein: 12.4,
+      iron: 1.26,
+      calcium: 100,
+    }),
+  )
+  const line = (key: NutrientKey) =>
+    [...label.nutrients, ...label.vitamins].find((row) => row.key === key)
+
+  it('rounds the amounts by the FDA rules', () => {
+    expect(label.calories).toBe(250)
+    expect(line('fat')?.amount).toBe('3.5g')
+    expect(line('saturatedFat')?.amount).toBe('0g')
+    expect(line('cholesterol')?.amount).toBe('less than 5mg')
+    expect(line('sodium')?.amount).toBe('140mg')
+    expect(line('fiber')?.amount).toBe('less than 1g')
+    expect(line('protein')?.amount).toBe('12g')
+    expect(line('iron')?.amount).toBe('1.3mg')
+  })
+
+  it('takes the daily value from the unrounded amount', () => {
+    expect(line('fat')?.dailyValue).toBe(4)
+    expect(line('sodium')?.dailyValue).toBe(6)
+    expect(line('calcium')?.dailyValue).toBe(8)
+    expect(line('protein')?.dailyValue).toBeNull()
+  })
+})
+
+describe('formatServingsPerContainer', () => {
+  it('writes fractional batches as about half servings', () => {
+    expect(formatServingsPerContainer(1)).toBe('1 serving per container')
+    expect(formatServingsPerContainer(4)).toBe('4 servings per container')
+    expect(formatServingsPerContainer(3.4)).toBe(
+      'About 3.5 servings per container',
+    )
+  })
+})
@@ -0,0 +1,197 @@
+import type { NutrientKey } from '@/lib/nutrients'
+import { formatDecimal } from '@/lib/quantity'
+
+export type FdaLabelLine = {
+  key: NutrientKey
+  label: string
+  // Rounded amount with its unit, e.g. "8g" or "less than 1g"
+  amount: string
+  // Rounded percentage, or null when the nutrient has no daily value
+  dailyValue: number | null
+  depth: number
+}
+
+export type FdaLabel = {
+  calories: number
+  nutrients: Array<FdaLabelLine>
+  vitamins: Array<FdaLabelLine>
+}
+
+// Daily values for adults and children 4 years and older (21 CFR 101.9)
+export const DAILY_VALUES: Partial<Record<NutrientKey, number>> = {
+  fat: 78,
+  saturatedFat: 20,
+  cholesterol: 300,
+  sodium: 2300,
+  carbs: 275,
+  fiber: 28,
+  addedSugars: 50,
+  vitaminD: 20,
+  calcium: 1300,
+  iron: 18,
+  potassium: 4700,
+}
+
+const roundTo = (value: number, step: number) =>
+  formatDecimal(Math.round(value / step) * step, 1)
+
+export function roundCalories(value: number) {
+  if (value < 5) return 0
+  return value <= 50 ? Math.round(value / 5) * 5 : Math.round(value / 10) * 10
+}
+
+// FDA rounding rules, each returning the amount without its unit
+const roundFat = (value: number) => {
+  if (value < 0.5) return '0'
+  return value < 5 ? roundTo(value, 0.5) : roundTo(value, 1)
+}
+
+const roundCholesterol = (value: number) => {
+  if (value < 2) return '0'
+  return value < 5 ? 'less than 5' : roundTo(value, 5)
+}
+
+const roundSodium = (value: number) => {
+  if (value < 5) return '0'
+  return value <= 140 ? roundTo(value, 5) : roundTo(value, 10)
+}
+
+const roundGrams = (value: number) => {
+  if (value < 0.5) return '0'
+  return value < 1 ? 'less than 1' : roundTo(value, 1)
+}
+
+// Vitamins and minerals step in 2, 5 and 10 percent increments
+export function roundVitaminDailyValue(percent: number) {
+  if (percent < 2) return 0
+  if (percent <= 10) return Math.round(percent / 2) * 2
+  if (percent <= 50) return Math.round(percent / 5) * 5
+  return Math.round(percent / 10) * 10
+}
+
+type LabelRow = {
+  key: NutrientKey
+  label: string
+  unit: 'g' | 'mg' | 'mcg'
+  round: (value: number) => string
+  depth: number
+}
+
+const NUTRIENT_ROWS: Array<LabelRow> = [
+  { key: 'fat', label: 'Total Fat', unit: 'g', round: roundFat, depth: 0 },
+  {
+    key: 'saturatedFat',
+    label: 'Saturated Fat',
+    unit: 'g',
+    round: roundFat,
+    depth: 1,
+  },
+  { key: 'transFat', label: 'Trans Fat', unit: 'g', round: roundFat, depth: 1 },
+  {
+    key: 'cholesterol',
+    label: 'Cholesterol',
+    unit: 'mg',
+    round: roundCholesterol,
+    depth: 0,
+  },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', round: roundSodium, depth: 0 },
+  {
+    key: 'carbs',
+    label: 'Total Carbohydrate',
+    unit: 'g',
+    round: roundGrams,
+    depth: 0,
+  },
+  {
+    key: 'fiber',
+    label: 'Dietary Fiber',
+    unit: 'g',
+    round: roundGrams,
+    depth: 1,
+  },
+  {
+    key: 'sugars',
+    label: 'Total Sugars',
+    unit: 'g',
+    round: roundGrams,
+    depth: 1,
+  },
+  {
+    key: 'addedSugars',
+    label: 'Added Sugars',
+    unit: 'g',
+    round: roundGrams,
+    depth: 2,
+  },
+  { key: 'protein', label: 'Protein', unit: 'g', round: roundGrams, depth: 0 },
+]
+
+const VITAMIN_ROWS: Array<LabelRow> = [
+  {
+    key: 'vitaminD',
+    label: 'Vitamin D',
+    unit: 'mcg',
+    round: (value) => roundTo(value, 0.1),
+    depth: 0,
+  },
+  {
+    key: 'calcium',
+    label: 'Calcium',
+    unit: 'mg',
+    round: (value) => roundTo(value, 10),
+    depth: 0,
+  },
+  {
+    key: 'iron',
+    label: 'Iron',
+    unit: 'mg',
+    round: (value) => roundTo(value, 0.1),
+    depth: 0,
+  },
+  {
+    key: 'potassium',
+    label: 'Potassium',
+    unit: 'mg',
+    round: roundSodium,
+    depth: 0,
+  },
+]
+
+// Builds the mandatory panel from unrounded per-serving amounts. The %DV is
+// taken from the unrounded amount, as the FDA allows.
+export function getFdaLabel(
+  getPerServing: (nutrient: NutrientKey) => number,
+): FdaLabel {
+  const toLine = (row: LabelRow, vitamin: boolean): FdaLabelLine => {
+    const value = getPerServing(row.key)
+    const dailyValue = DAILY_VALUES[row.key]
+    const percent = dailyValue ? (value / dailyValue) * 100 : null
+
+    return {
+      key: row.key,
+      label: row.label,
+      amount: `${row.round(value)}${row.unit}`,
+      dailyValue:
+        percent === null
+          ? null
+          : vitamin
+            ? roundVitaminDailyValue(percent)
+            : Math.round(percent),
+      depth: row.depth,
+    }
+  }
+
+  return {
+    calories: roundCalories(getPerServing('calories')),
+    nutrients: NUTRIENT_ROWS.map((row) => toLine(row, false)),
+    vitamins: VITAMIN_ROWS.map((row) => toLine(row, true)),
+  }
+}
+
+// "4 servings per container", or "About 3.5" for fractional batches
+export function formatServingsPerContainer(servings: number) {
+  const count = Number.isInteger(servings)
+    ? servings.toString()
+    : `About ${formatDecimal(Math.round(servings * 2) / 2, 1)}`
+  return `${count} serving${servings === 1 ? '' : 's'} per container`
+}
@@ -0,0 +1,174 @@
+import type { Ingredient } from '@/lib/types'
+import { matchesAnyKeyword } from '@/lib/keywords'
+
+export type FoodCategory =
+  | 'meat'
+  | 'poultry'
+  | 'fish'
+  | 'shellfish'
+  | 'dairy'
+  | 'egg'
+  | 'honey'
+  | 'gelatin'
+  | 'grain'
+  | 'legume'
+  | 'vegetable'
+  | 'fruit'
+  | 'nut'
+  | 'seed'
+  | 'oil'
+  | 'sweetener'
+  | 'spice'
+
+type FoodCategoryDefinition = {
+  id: FoodCategory
+  label: string
+  animal: boolean
+  // Only animal products are detected from names; plant categories come
+  // from the nutrition database
+  keywords?: Array<string>
+  excludes?: Array<string>
+}
+
+export const FOOD_CATEGORIES: Array<FoodCategoryDefinition> = [
+  {
+    id: 'meat',
+    label: 'meat',
+    animal: true,
+    keywords: [
+      'beef',
+      'pork',
+      'lamb',
+      'veal',
+      'venison',
+      'bacon',
+      'ham',
+      'sausage',
+      'mince',
+      'steak',
+      'prosciutto',
+      'salami',
+      'chorizo',
+      'pancetta',
+      'lard',
+      'suet',
+    ],
+    excludes: ['vegan', 'plant-based', 'meatless'],
+  },
+  {
+    id: 'poultry',
+    label: 'poultry',
+    animal: true,
+    keywords: ['chicken', 'turkey', 'duck', 'goose', 'quail'],
+    excludes: ['vegan', 'plant-based'],
+  },
+  {
+    id: 'fish',
+    label: 'fish',
+    animal: true,
+    keywords: [
+      'fish',
+      'salmon',
+      'tuna',
+      'cod',
+      'anchovy',
+      'sardine',
+      'trout',
+      'haddock',
+      'mackerel',
+      'worcestershire',
+    ],
+    excludes: ['vegan'],
+  },
+  {
+    id: 'shellfish',
+    label: 'shellfish',
+    animal: true,
+    keywords: [
+      'shrimp',
+      'prawn',
+      'crab',
+      'lobster',
+      'mussel',
+      'clam',
+      'oyster',
+      'scallop',
+      'squid',
+      'octopus',
+      'calamari',
+    ],
+    excludes: ['oyster mushroom'],
+  },
+  {
+    id: 'dairy',
+    label: 'dairy',
+    animal: true,
+    keywords: [
+      'milk',
+      'butter',
+      'cream',
+      'cheese',
+      'yogurt',
+      'yoghurt',
+      'ghee',
+      'whey',
+      'parmesan',
+      'mozzarella',
+      'ricotta',
+      'mascarpone',
+      'kefir',
+    ],
+    excludes: [
+      'peanut butter',
+      'almond milk',
+      'oat milk',
+      'soy milk',
+      'rice milk',
+      'coconut milk',
+      'coconut cream',
+      'cocoa butter',
+      'cream of tartar',
+      'butternut',
+      'dairy-free',
+      'vegan',
+    ],
+  },
+  {
+    id: 'egg',
+    label: 'egg',
+    animal: true,
+    keywords: ['egg', 'mayonnaise', 'mayo', 'meringue', 'aioli'],
+    excludes: ['eggplant', 'vegan', 'egg-free'],
+  },
+  { id: 'honey', label: 'honey', animal: true, keywords: ['honey'] },
+  {
+    id: 'gelatin',
+    label: 'gelatin',
+    animal: true,
+    keywords: ['gelatin', 'gelatine'],
+  },
+  { id: 'grain', label: 'grain', animal: false },
+  { id: 'legume', label: 'legume', animal: false },
+  { id: 'vegetable', label: 'vegetable', animal: false },
+  { id: 'fruit', label: 'fruit', animal: false },
+  { id: 'nut', label: 'nut', animal: false },
+  { id: 'seed', label: 'seed', animal: false },
+  { id: 'oil', label: 'oil', animal: false },
+  { id: 'sweetener', label: 'sweetener', animal: false },
+  { id: 'spice', label: 'spice', animal: false },
+]
+
+export function detectFoodCategories(name: string): Array<FoodCategory> {
+  return FOOD_CATEGORIES.filter(
+    (category) =>
+      !matchesAnyKeyword(name, category.excludes ?? []) &&
+      matchesAnyKeyword(name, category.keywords ?? [], 'prefix'),
+  ).map((category) => category.id)
+}
+
+// Categories from the nutrition database win over detection from the name
+export function getFoodCategories(
+  ingredient: Pick<Ingredient, 'name' | 'categories'>,
+): Array<FoodCategory> {
+  return ingredient.categories ?? detectFoodCategories(ingredient.name)
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { matchesAnyKeyword, matchesKeyword } from '@/lib/keywords'
+
+describe('matchesKeyword', () => {
+  it('matches whole words with an optional plural', () => {
+    expect(matchesKeyword('Green Beans', 'bean')).toBe(true)
+    expect(matchesKeyword('ripe tomatoes', 'tomato')).toBe(true)
+    expect(matchesKeyword('fresh cherries', 'cherry')).toBe(true)
+    expect(matchesKeyword('dried bay leaves', 'bay leaf')).toBe(true)
+    expect(matchesKeyword('salted butter', 'salt')).toBe(false)
+    expect(matchesKeyword('goat cheese', 'oat')).toBe(false)
+    expect(matchesKeyword('rolled oats', 'roll')).toBe(false)
+  })
+
+  it('treats hyphens and accents as word boundaries and letters', () => {
+    expect(matchesKeyword('gluten-free bread', 'gluten-free')).toBe(true)
+    expect(matchesKeyword('dairy-free spread', 'dairy')).toBe(true)
+    expect(matchesKeyword('purée de pommes', 'purée')).toBe(true)
+    expect(matchesKeyword('puréed', 'purée')).toBe(false)
+  })
+
+  it('matches the start of words in prefix mode', () => {
+    expect(matchesKeyword('buttermilk', 'butter', 'prefix')).toBe(true)
+    expect(matchesKeyword('anchovies', 'anchovy', 'prefix')).toBe(true)
+    expect(matchesKeyword('peanut butter', 'nut', 'prefix')).toBe(false)
+  })
+})
+
+describe('matchesAnyKeyword', () => {
+  it('matches when one of the keywords does', () => {
+    expect(matchesAnyKeyword('black pepper', ['salt', 'pepper'])).toBe(true)
+    expect(matchesAnyKeyword('bell pepper', ['salt', 'black pepper'])).toBe(
+      false,
+    )
+    expect(matchesAnyKeyword('anything', [])).toBe(false)
+  })
+})
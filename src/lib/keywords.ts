@@ -0,0 +1,37 @@
+// Keyword matching for free-typed ingredient names. Keywords match whole
+// words with an optional plural, so "bean" finds "green beans" and "bay leaf"
+// finds "bay leaves" while "salt" stays out of "salted butter".
+//
+// Allergen and animal-product lists match the start of words instead, as
+// missing "buttermilk" or "breadcrumbs" there is worse than a false alarm.
+export type KeywordMatch = 'word' | 'prefix'
+
+const escapeKeyword = (keyword: string) =>
+  keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const toPluralPattern = (keyword: string) => {
+  const escaped = escapeKeyword(keyword.toLowerCase())
+  if (/[^aeiou]y$/.test(escaped)) return `${escaped.slice(0, -1)}(?:y|ies)`
+  if (escaped.endsWith('fe')) return `${escaped.slice(0, -2)}(?:fe|ves)`
+  if (escaped.endsWith('f')) return `${escaped.slice(0, -1)}(?:f|ves)`
+  return `${escaped}(?:e?s)?`
+}
+
+export function matchesKeyword(
+  name: string,
+  keyword: string,
+  match: KeywordMatch = 'word',
+) {
+  const end = match === 'word' ? '(?!\\p{L})' : ''
+  return new RegExp(`(?<!\\p{L})${toPluralPattern(keyword)}${end}`, 'iu').test(
+    name,
+  )
+}
+
+export function matchesAnyKeyword(
+  name: string,
+  keywords: Array<string>,
+  match: KeywordMatch = 'word',
+) {
+  return keywords.some((keyword) => matchesKeyword(name, keyword, match))
+}
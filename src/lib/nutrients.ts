@@ -0,0 +1,103 @@
+import type { NutritionData } from '@/lib/types'
+
+export type NutrientKey =
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'fiber'
+  | 'sugars'
+  | 'addedSugars'
+  | 'saturatedFat'
+  | 'transFat'
+  | 'cholesterol'
+  | 'sodium'
+  | 'potassium'
+  | 'calcium'
+  | 'iron'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD'
+  | 'polyols'
+  | 'alcohol'
+
+export type NutrientUnit = 'kcal' | 'g' | 'mg' | 'µg'
+
+export type NutrientDefinition = {
+  key: NutrientKey
+  label: string
+  unit: NutrientUnit
+  // Calories and the three macros are always entered on the row itself;
+  // the rest live in the collapsible section
+  core: boolean
+  // Part of the nutrient listed above it, e.g. saturated fat within fat
+  parent?: NutrientKey
+}
+
+// Every value is per 100 g (or 100 ml) of the ingredient, in the listed unit.
+// Vitamin A is in µg retinol activity equivalents.
+export const NUTRIENTS: Array<NutrientDefinition> = [
+  { key: 'calories', label: 'Calories', unit: 'kcal', core: true },
+  { key: 'protein', label: 'Protein', unit: 'g', core: true },
+  { key: 'carbs', label: 'Carbs', unit: 'g', core: true },
+  { key: 'fiber', label: 'Fiber', unit: 'g', core: false, parent: 'carbs' },
+  { key: 'sugars', label: 'Sugars', unit: 'g', core: false, parent: 'carbs' },
+  {
+    key: 'addedSugars',
+    label: 'Added sugars',
+    unit: 'g',
+    core: false,
+    parent: 'sugars',
+  },
+  {
+    key: 'polyols',
+    label: 'Polyols',
+    unit: 'g',
+    core: false,
+    parent: 'carbs',
+  },
+  { key: 'fat', label: 'Fat', unit: 'g', core: true },
+  {
+    key: 'saturatedFat',
+    label: 'Saturated fat',
+    unit: 'g',
+    core: false,
+    parent: 'fat',
+  },
+  {
+    key: 'transFat',
+    label: 'Trans fat',
+    unit: 'g',
+    core: false,
+    parent: 'fat',
+  },
+  { key: 'alcohol', label: 'Alcohol', unit: 'g', core: false },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', core: false },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', core: false },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', core: false },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', core: false },
+  { key: 'iron', label: 'Iron', unit: 'mg', core: false },
+  { key: 'vitaminA', label: 'Vitamin A', unit: 'µg', core: false },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', core: false },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'µg', core: false },
+]
+
+export const EXTENDED_NUTRIENTS = NUTRIENTS.filter((nutrient) => !nutrient.core)
+
+// Nesting depth in a nutrition table, e.g. 2 for added sugars
+export function getNutrientDepth(nutrient: NutrientDefinition): number {
+  const parent = NUTRIENTS.find(
+    (candidate) => candidate.key === nutrient.parent,
+  )
+  return parent ? getNutrientDepth(parent) + 1 : 0
+}
+
+// Copies the extended values of a search result onto ingredient fields
+export function getExtendedNutrientFields(data: NutritionData) {
+  const fields: Partial<Record<NutrientKey, string>> = {}
+  for (const { key } of EXTENDED_NUTRIENTS) {
+    const value = data[key]
+    if (value !== undefined) fields[key] = value.toString()
+  }
+  return fields
+}
@@ -0,0 +1,22 @@
+import type { Ingredient } from '@/lib/types'
+import { toGrams } from '@/lib/density'
+import { findUnit } from '@/lib/units'
+
+// Nutrient values are entered per 100 g (or per 100 ml)
+export const STANDARD_SERVING = 100
+
+// Amount that the per-100 nutrient values of a row apply to: grams where the
+// quantity can be weighed, millilitres for volumes without a density. Unknown
+// units and counted items without a weight cannot be related to the
+// standard, so they return null rather than being mis-summed.
+export function getNutritionAmount(
+  quantity: number,
+  ingredient: Ingredient,
+): number | null {
+  const unit = findUnit(ingredient.unit)
+  if (!unit) return null
+
+  const grams = toGrams(quantity, ingredient)
+  if (grams !== null) return grams
+  return unit.dimension === 'volume' ? quantity * unit.toBase : null
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { solveBoundedLeastSquares } from '@/lib/optimizer'
+
+describe('solveBoundedLeastSquares', () => {
+  it('solves an unconstrained system exactly', () => {
+    const x = solveBoundedLeastSquares(
+      [
+        [1, 1],
+        [1, -1],
+      ],
+      [3, 1],
+      [-10, -10],
+      [10, 10],
+      [0, 0],
+    )
+    expect(x.at(0)).toBeCloseTo(2)
+    expect(x.at(1)).toBeCloseTo(1)
+  })
+
+  it('keeps every coordinate within its bounds', () => {
+    const x = solveBoundedLeastSquares(
+      [
+        [1, 0],
+        [0, 1],
+      ],
+      [2, 5],
+      [0, 0],
+      [10, 3],
+      [20, -4],
+    )
+    expect(x).toEqual([2, 3])
+  })
+})
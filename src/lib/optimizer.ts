@@ -0,0 +1,123 @@
+export type MacroNutrient = 'protein' | 'carbs' | 'fat'
+
+export const MACRO_NUTRIENTS: Array<MacroNutrient> = ['protein', 'carbs', 'fat']
+
+export type MacroTargets = Partial<Record<MacroNutrient, number>>
+
+export type OptimizerRow = {
+  quantity: number
+  min: number
+  max: number
+  // Grams of each macro contributed by one unit of the row's quantity
+  perUnit: Record<MacroNutrient, number>
+}
+
+const MAX_SWEEPS = 500
+const TOLERANCE = 1e-9
+
+// Minimises ||A x - b||² subject to lower <= x <= upper with projected
+// coordinate descent. Each step solves one coordinate exactly, so the
+// objective never increases and the bounds always hold.
+export function solveBoundedLeastSquares(
+  A: Array<Array<number>>,
+  b: Array<number>,
+  lower: Array<number>,
+  upper: Array<number>,
+  start: Array<number>,
+): Array<number> {
+  const x = start.map((value, j) =>
+    Math.min(upper[j], Math.max(lower[j], value)),
+  )
+  const residual = A.map(
+    (row, i) => row.reduce((sum, a, j) => sum + a * x[j], 0) - b[i],
+  )
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let largestStep = 0
+
+    for (let j = 0; j < x.length; j++) {
+      const curvature = A.reduce((sum, row) => sum + row[j] * row[j], 0)
+      if (curvature === 0) continue
+
+      const gradient = A.reduce((sum, row, i) => sum + row[j] * residual[i], 0)
+      const next = Math.min(
+        upper[j],
+        Math.max(lower[j], x[j] - gradient / curvature),
+      )
+      const step = next - x[j]
+      if (step === 0) continue
+
+      A.forEach((row, i) => {
+        residual[i] += row[j] * step
+      })
+      x[j] = next
+      largestStep = Math.max(largestStep, Math.abs(step) / (1 + Math.abs(next)))
+    }
+
+    if (largestStep < TOLERANCE) break
+  }
+
+  return x
+}
+
+export function getMacrosPerServing(
+  rows: Array<OptimizerRow>,
+  quantities: Array<number>,
+  portions: number,
+  fixedPerServing: Record<MacroNutrient, number>,
+) {
+  return Object.fromEntries(
+    MACRO_NUTRIENTS.map((nutrient) => [
+      nutrient,
+      fixedPerServing[nutrient] +
+        rows.reduce(
+          (sum, row, j) => sum + row.perUnit[nutrient] * quantities[j],
+          0,
+        ) /
+          portions,
+    ]),
+  ) as Record<MacroNutrient, number>
+}
+
+// Proposes row quantities whose per-serving macros come as close as possible
+// to the targets, in relative terms so that grams of fat weigh as much as
+// grams of carbs. Nutrients without a target are left free.
+export function optimizeMacros(
+  rows: Array<OptimizerRow>,
+  targets: MacroTargets,
+  portions: number,
+  // Per-serving macros of rows that are not optimized
+  fixedPerServing: Record<MacroNutrient, number>,
+) {
+  const targeted = MACRO_NUTRIENTS.flatMap(
+    (nutrient): Array<[MacroNutrient, number]> => {
+      const target = targets[nutrient] ?? 0
+      return target > 0 ? [[nutrient, target]] : []
+    },
+  )
+
+  const A = targeted.map(([nutrient, target]) =>
+    rows.map((row) => row.perUnit[nutrient] / portions / target),
+  )
+  const b = targeted.map(
+    ([nutrient, target]) => 1 - fixedPerServing[nutrient] / target,
+  )
+
+  const quantities = solveBoundedLeastSquares(
+    A,
+    b,
+    rows.map((row) => row.min),
+    rows.map((row) => row.max),
+    rows.map((row) => row.quantity),
+  )
+
+  return {
+    quantities,
+    perServing: getMacrosPerServing(
+      rows,
+      quantities,
+      portions,
+      fixedPerServing,
+    ),
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import type { PantryItem } from '@/lib/pantry'
+import type { Ingredient } from '@/lib/types'
+import {
+  convertForIngredient,
+  deductFromPantry,
+  findPantryItems,
+  getPantryAvailability,
+  matchPantryName,
+} from '@/lib/pantry'
+
+const ingredient = (name: string, unit: string): Ingredient => ({
+  name,
+  quantity: '1',
+  unit,
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+})
+
+const item = (
+  id: string,
+  name: string,
+  quantity: string,
+  unit: string,
+  expires = '',
+): PantryItem => ({ id, name, quantity, unit, expires })
+
+describe('matchPantryName', () => {
+  it('matches the same name regardless of case, plurals and descriptors', () => {
+    expect(matchPantryName('Eggs', 'large eggs, beaten')).toBe(2)
+    expect(matchPantryName('Tomatoes', 'tomato')).toBe(2)
+    expect(matchPantryName('potato', 'Potatoes')).toBe(2)
+    expect(matchPantryName('berries', 'berry')).toBe(2)
+    expect(matchPantryName('Peaches', 'peach')).toBe(2)
+  })
+
+  it('keeps descriptors that are the whole name', () => {
+    expect(matchPantryName('cloves', 'cloves')).toBe(2)
+    expect(matchPantryName('Cloves', 'ground clove')).toBe(1)
+    expect(matchPantryName('Garlic', 'garlic cloves')).toBe(1)
+    expect(matchPantryName('Fresh', 'fresh')).toBe(2)
+  })
+
+  it('matches a name that narrows the other down', () => {
+    expect(matchPantryName('chicken', 'chicken breast')).toBe(1)
+    expect(matchPantryName('whole milk', 'milk')).toBe(1)
+    expect(matchPantryName('flour', 'all-purpose flour')).toBe(1)
+  })
+
+  it('does not take another product for the food', () => {
+    expect(matchPantryName('chicken', 'chicken stock')).toBe(0)
+    expect(matchPantryName('tomato', 'tomato paste')).toBe(0)
+    expect(matchPantryName('chicken stock', 'chicken breast')).toBe(0)
+  })
+
+  it('does not take a plant-based version for the food', () => {
+    expect(matchPantryName('milk', 'coconut milk')).toBe(0)
+    expect(matchPantryName('almond milk', 'milk')).toBe(0)
+    expect(matchPantryName('Oat milk', 'milk')).toBe(0)
+    expect(matchPantryName('butter', 'peanut butter')).toBe(0)
+    expect(matchPantryName('cream', 'soy cream')).toBe(0)
+    expect(matchPantryName('coconut milk', 'coconut milk')).toBe(2)
+  })
+
+  it('keeps words ending in s that are not plurals', () => {
+    expect(matchPantryName('glass noodles', 'glass noodle')).toBe(2)
+    expect(matchPantryName('hummus', 'humm')).toBe(0)
+  })
+})
+
+describe('convertForIngredient', () => {
+  it('tells units apart by what they are, not by their text', () => {
+    const sugar = ingredient('sugar', 'g')
+    expect(convertForIngredient(1, 'T', 't', sugar)).toBeCloseTo(3)
+    expect(convertForIngredient(2, 'tbsp', 'Tbsp', sugar)).toBe(2)
+    expect(convertForIngredient(2, 'Bottle', 'bottle', sugar)).toBe(2)
+    expect(convertForIngredient(2, 'bottle', 'g', sugar)).toBeNull()
+  })
+
+  it('goes through the weight across dimensions', () => {
+    expect(
+      convertForIngredient(1, 'cup', 'g', ingredient('flour', 'cup')),
+    ).toBeCloseTo(120)
+  })
+})
+
+describe('findPantryItems', () => {
+  it('prefers exact names and sorts by expiry', () => {
+    const items = [
+      item('a', 'flour', '1', 'kg', '2026-12-01'),
+      item('b', 'Flour', '200', 'g', '2026-10-20'),
+      item('c', 'rye flour', '500', 'g'),
+    ]
+    expect(
+      findPantryItems(items, { name: 'flour' }).map(({ id }) => id),
+    ).toEqual(['b', 'a'])
+  })
+})
+
+describe('getPantryAvailability', () => {
+  const pantry = [
+    item('a', 'flour', '1', 'kg'),
+    item('b', 'eggs', '4', 'egg'),
+    item('c', 'milk', '1', 'bottle'),
+  ]
+
+  it('converts between units of the same dimension', () => {
+    const result = getPantryAvailability(500, ingredient('Flour', 'g'), pantry)
+    expect(result.status).toBe('in-stock')
+    expect(result.available).toBeCloseTo(1000)
+  })
+
+  it('reports partial and missing rows', () => {
+    expect(
+      getPantryAvailability(6, ingredient('Eggs', 'egg'), pantry).status,
+    ).toBe('partial')
+    expect(
+      getPantryAvailability(1, ingredient('Butter', 'g'), pantry).status,
+    ).toBe('missing')
+  })
+
+  it('leaves amounts in unknown units unconverted', () => {
+    const result = getPantryAvailability(200, ingredient('Milk', 'ml'), pantry)
+    expect(result.status).toBe('partial')
+    expect(result.available).toBeNull()
+  })
+})
+
+describe('deductFromPantry', () => {
+  it('takes the soonest expiring stock first and drops used up items', () => {
+    const pantry = [
+      item('a', 'flour', '1', 'kg', '2026-12-01'),
+      item('b', 'flour', '200', 'g', '2026-10-20'),
+    ]
+    expect(
+      deductFromPantry(pantry, [
+        { ingredient: ingredient('Flour', 'g'), quantity: 360 },
+      ]),
+    ).toEqual([item('a', 'flour', '0.84', 'kg', '2026-12-01')])
+  })
+
+  it('leaves items it cannot convert alone', () => {
+    const pantry = [item('a', 'milk', '1', 'bottle')]
+    expect(
+      deductFromPantry(pantry, [
+        { ingredient: ingredient('Milk', 'ml'), quantity: 200 },
+      ]),
+    ).toEqual(pantry)
+  })
+})
@@ -0,0 +1,275 @@
+import type { Ingredient } from '@/lib/types'
+import { toGrams } from '@/lib/density'
+import { parseQuantity } from '@/lib/quantity'
+import { convertQuantity, findUnit } from '@/lib/units'
+
+export type PantryItem = {
+  id: string
+  name: string
+  quantity: string
+  unit: string
+  // ISO date (yyyy-mm-dd), empty when the item keeps
+  expires: string
+}
+
+export type PantryStatus = 'in-stock' | 'partial' | 'missing'
+
+export type PantryAvailability = {
+  status: PantryStatus
+  // Amount at home in the row's unit, null when it cannot be converted
+  available: number | null
+  items: Array<PantryItem>
+}
+
+// Items expiring within this many days are flagged
+export const EXPIRY_WARNING_DAYS = 3
+
+// Words that describe the state, size or container of an ingredient rather
+// than what it is, e.g. "2 large eggs, beaten" is still eggs
+const DESCRIPTORS = [
+  'fresh',
+  'frozen',
+  'dried',
+  'raw',
+  'cooked',
+  'large',
+  'medium',
+  'small',
+  'chopped',
+  'diced',
+  'sliced',
+  'minced',
+  'grated',
+  'shredded',
+  'beaten',
+  'melted',
+  'softened',
+  'peeled',
+  'organic',
+  'can',
+  'tin',
+  'bunch',
+  'of',
+  'and',
+]
+
+// Words that make a different product out of a food, so that chicken
+// stock is not taken for chicken
+const PRODUCT_WORDS = [
+  'stock',
+  'broth',
+  'powder',
+  'sauce',
+  'juice',
+  'paste',
+  'oil',
+  'butter',
+  'milk',
+  'cream',
+  'flour',
+  'starch',
+  'syrup',
+  'jam',
+  'vinegar',
+  'extract',
+  'cube',
+]
+
+// Plant sources of milks, butters and creams, so that coconut milk is not
+// taken for milk
+const SOURCE_WORDS = [
+  'coconut',
+  'almond',
+  'cashew',
+  'hazelnut',
+  'macadamia',
+  'peanut',
+  'soy',
+  'oat',
+  'rice',
+  'hemp',
+  'pea',
+  'cocoa',
+  'vegan',
+  'plant',
+]
+
+// Reduces an English plural to its singular: berries, tomatoes, peaches
+// and eggs, but not glass or hummus
+const toSingular = (word: string) =>
+  word
+    .replace(/ies$/, 'y')
+    .replace(/(o|ch|sh|x|ss)es$/, '$1')
+    .replace(/(?<=[^su])s$/, '')
+
+// Lenient on case, punctuation, plurals and descriptors, so that "Large
+// eggs, beaten" reads as "egg". Descriptors are kept when nothing else is
+// left, so that a name made only of descriptors still matches itself.
+const toNameWords = (name: string) => {
+  const words = name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1)
+    .map(toSingular)
+  const named = words.filter((word) => !DESCRIPTORS.includes(word))
+  return named.length > 0 ? named : words
+}
+
+// How well a pantry item's name matches a recipe ingredient: 2 for the same
+// words, 1 when one name narrows the other down ("chicken" for "chicken
+// breast", "whole milk" for "milk"), 0 otherwise. A narrower name that
+// turns the food into another product, or names its plant source, never
+// matches.
+export function matchPantryName(pantryName: string, ingredientName: string) {
+  const pantryWords = toNameWords(pantryName)
+  const ingredientWords = toNameWords(ingredientName)
+  if (pantryWords.length === 0 || ingredientWords.length === 0) return 0
+
+  const [shorter, longer] =
+    pantryWords.length <= ingredientWords.length
+      ? [pantryWords, ingredientWords]
+      : [ingredientWords, pantryWords]
+  if (!shorter.every((word) => longer.includes(word))) return 0
+  if (shorter.length === longer.length) return 2
+
+  return longer.some(
+    (word) =>
+      !shorter.includes(word) &&
+      (PRODUCT_WORDS.includes(word) || SOURCE_WORDS.includes(word)),
+  )
+    ? 0
+    : 1
+}
+
+// Known units compare by id, as "T" and "t" are different spoons; unknown
+// ones such as "bottle" by their text
+const sameUnit = (a: string, b: string) => {
+  const unitA = findUnit(a)
+  const unitB = findUnit(b)
+  return unitA || unitB
+    ? unitA?.id === unitB?.id
+    : a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+// Converts an amount between units for one ingredient, going through its
+// weight when the dimensions differ, e.g. a cup of flour against a 1 kg bag
+export function convertForIngredient(
+  value: number,
+  fromUnit: string,
+  toUnit: string,
+  ingredient: Ingredient,
+): number | null {
+  if (sameUnit(fromUnit, toUnit)) return value
+
+  const converted = convertQuantity(value, fromUnit, toUnit)
+  if (converted !== null) return converted
+
+  const grams = toGrams(value, { ...ingredient, unit: fromUnit })
+  const gramsPerUnit = toGrams(1, { ...ingredient, unit: toUnit })
+  return grams !== null && gramsPerUnit ? grams / gramsPerUnit : null
+}
+
+// Pantry items for an ingredient. Items of the same name are preferred
+// over looser matches, and the soonest expiring come first so that older
+// stock is used up first.
+export function findPantryItems(
+  items: Array<PantryItem>,
+  ingredient: Pick<Ingredient, 'name'>,
+) {
+  const scored = items.map((item) => ({
+    item,
+    score: matchPantryName(item.name, ingredient.name),
+  }))
+  const best = Math.max(0, ...scored.map(({ score }) => score))
+  if (best === 0) return []
+
+  return scored
+    .filter(({ score }) => score === best)
+    .map(({ item }) => item)
+    .sort((a, b) =>
+      (a.expires || '9999-12-31').localeCompare(b.expires || '9999-12-31'),
+    )
+}
+
+// Whether the pantry covers a purchased quantity in the row's unit. Items
+// whose unit cannot be converted make the row partial at best.
+export function getPantryAvailability(
+  quantity: number,
+  ingredient: Ingredient,
+  items: Array<PantryItem>,
+): PantryAvailability {
+  const matches = findPantryItems(items, ingredient)
+  const amounts = matches.map((item) => {
+    const amount = parseQuantity(item.quantity)
+    return amount === null
+      ? null
+      : convertForIngredient(amount, item.unit, ingredient.unit, ingredient)
+  })
+
+  const available = amounts.every((amount) => amount !== null)
+    ? amounts.reduce((total, amount) => total + amount, 0)
+    : null
+
+  const status: PantryStatus =
+    matches.length === 0
+      ? 'missing'
+      : available !== null && available >= quantity * 0.999
+        ? 'in-stock'
+        : available === 0
+          ? 'missing'
+          : 'partial'
+
+  return { status, available, items: matches }
+}
+
+// Takes purchased quantities out of the pantry, soonest expiring items
+// first. Used-up items are removed and items whose unit cannot be converted
+// are left as they are.
+export function deductFromPantry(
+  items: Array<PantryItem>,
+  rows: Array<{ ingredient: Ingredient; quantity: number }>,
+): Array<PantryItem> {
+  const remaining = new Map(
+    items.map((item) => [item.id, parseQuantity(item.quantity)]),
+  )
+
+  for (const { ingredient, quantity } of rows) {
+    let needed = quantity
+    for (const item of findPantryItems(items, ingredient)) {
+      const stock = remaining.get(item.id)
+      if (needed <= 0 || stock === null || stock === undefined) continue
+
+      const stockInRowUnit = convertForIngredient(
+        stock,
+        item.unit,
+        ingredient.unit,
+        ingredient,
+      )
+      if (stockInRowUnit === null || stockInRowUnit <= 0) continue
+
+      const taken = Math.min(needed, stockInRowUnit)
+      needed -= taken
+      remaining.set(item.id, stock * (1 - taken / stockInRowUnit))
+    }
+  }
+
+  return items.flatMap((item) => {
+    const stock = remaining.get(item.id)
+    if (stock === null || stock === undefined) return [item]
+    if (stock <= 1e-6) return []
+
+    return [{ ...item, quantity: String(Math.round(stock * 100) / 100) }]
+  })
+}
+
+// Days until an item expires, negative once it has, or null without a date
+export function getDaysToExpiry(item: PantryItem, today = new Date()) {
+  if (!item.expires) return null
+
+  const expires = new Date(`${item.expires}T00:00:00`)
+  if (isNaN(expires.getTime())) return null
+
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  return Math.round((expires.getTime() - start.getTime()) / 86_400_000)
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import type { NutritionProfile } from '@/lib/profiles'
+import { getBasalMetabolicRate, getDailyTargets } from '@/lib/profiles'
+
+const profile = (fields: Partial<NutritionProfile>): NutritionProfile => ({
+  id: 'a',
+  name: 'Me',
+  age: '35',
+  sex: 'female',
+  weight: '60',
+  activity: 'sedentary',
+  goal: 'maintain',
+  ...fields,
+})
+
+describe('getBasalMetabolicRate', () => {
+  it('uses the Schofield equation for the age and sex', () => {
+    expect(getBasalMetabolicRate(profile({}))).toBeCloseTo(1333.16)
+    expect(
+      getBasalMetabolicRate(profile({ sex: 'male', age: '25', weight: '80' })),
+    ).toBeCloseTo(1896.76)
+  })
+
+  it('needs an age and a weight', () => {
+    expect(getBasalMetabolicRate(profile({ age: '' }))).toBeNull()
+    expect(getBasalMetabolicRate(profile({ weight: '0' }))).toBeNull()
+  })
+})
+
+describe('getDailyTargets', () => {
+  it('splits the energy needs into macros', () => {
+    const targets = getDailyTargets(profile({}))
+    expect(targets?.calories).toBeCloseTo(1866.42)
+    expect(targets?.protein).toBe(60)
+    expect(targets?.fat).toBeCloseTo(62.21)
+    expect(targets?.carbs).toBeCloseTo(266.62)
+    expect(targets?.fiber).toBeCloseTo(26.13)
+    expect(targets?.sodium).toBe(2300)
+  })
+
+  it('adjusts energy and protein to the goal', () => {
+    const targets = getDailyTargets(profile({ goal: 'lose' }))
+    expect(targets?.calories).toBeCloseTo(1493.14)
+    expect(targets?.protein).toBe(96)
+  })
+
+  it('has no targets for an incomplete profile', () => {
+    expect(getDailyTargets(profile({ weight: '' }))).toBeNull()
+  })
+})
@@ -0,0 +1,107 @@
+import type { NutrientKey } from '@/lib/nutrients'
+
+export type Sex = 'female' | 'male'
+
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active'
+
+export type Goal = 'lose' | 'maintain' | 'gain'
+
+// Form values are kept as typed, like ingredient rows
+export type NutritionProfile = {
+  id: string
+  name: string
+  age: string
+  sex: Sex
+  // Body weight in kilograms
+  weight: string
+  activity: ActivityLevel
+  goal: Goal
+}
+
+export type DailyTargets = Partial<Record<NutrientKey, number>>
+
+// Physical activity levels, multiplied with the basal metabolic rate
+export const ACTIVITY_LEVELS: Array<{
+  value: ActivityLevel
+  label: string
+  factor: number
+}> = [
+  { value: 'sedentary', label: 'Sedentary', factor: 1.4 },
+  { value: 'light', label: 'Lightly active', factor: 1.6 },
+  { value: 'moderate', label: 'Moderately active', factor: 1.75 },
+  { value: 'active', label: 'Very active', factor: 2 },
+]
+
+export const GOALS: Array<{
+  value: Goal
+  label: string
+  energyFactor: number
+  // Grams of protein per kilogram of body weight
+  proteinPerKg: number
+}> = [
+  { value: 'lose', label: 'Lose weight', energyFactor: 0.8, proteinPerKg: 1.6 },
+  { value: 'maintain', label: 'Maintain', energyFactor: 1, proteinPerKg: 1 },
+  { value: 'gain', label: 'Gain muscle', energyFactor: 1.1, proteinPerKg: 1.8 },
+]
+
+// Share of energy from fat, the rest of the non-protein energy is carbs
+const FAT_ENERGY_SHARE = 0.3
+// Grams of fiber per 1000 kcal
+const FIBER_PER_1000_KCAL = 14
+const SODIUM_LIMIT = 2300
+
+// Schofield equations (WHO/FAO/UNU 1985), which need only age, sex and
+// weight: [upper age bound, kcal per kg, constant]
+const SCHOFIELD: Record<Sex, Array<[number, number, number]>> = {
+  male: [
+    [3, 59.512, -30.4],
+    [10, 22.706, 504.3],
+    [18, 17.686, 658.2],
+    [30, 15.057, 692.2],
+    [60, 11.472, 873.1],
+    [Infinity, 11.711, 587.7],
+  ],
+  female: [
+    [3, 58.317, -31.1],
+    [10, 20.315, 485.9],
+    [18, 13.384, 692.6],
+    [30, 14.818, 486.6],
+    [60, 8.126, 845.6],
+    [Infinity, 9.082, 658.5],
+  ],
+}
+
+// Basal metabolic rate in kcal per day, or null for incomplete profiles
+export function getBasalMetabolicRate(profile: NutritionProfile) {
+  const age = Number.parseFloat(profile.age)
+  const weight = Number.parseFloat(profile.weight)
+  if (!(age > 0) || !(weight > 0)) return null
+
+  const equation = SCHOFIELD[profile.sex].find(([upTo]) => age < upTo)
+  return equation ? equation[1] * weight + equation[2] : null
+}
+
+export function getDailyTargets(
+  profile: NutritionProfile,
+): DailyTargets | null {
+  const basal = getBasalMetabolicRate(profile)
+  const activity = ACTIVITY_LEVELS.find(
+    (level) => level.value === profile.activity,
+  )
+  const goal = GOALS.find((candidate) => candidate.value === profile.goal)
+  if (basal === null || !activity || !goal) return null
+
+  const calories = basal * activity.factor * goal.energyFactor
+  const protein = Number.parseFloat(profile.weight) * goal.proteinPerKg
+  const fat = (calories * FAT_ENERGY_SHARE) / 9
+  const carbs = Math.max(calories - protein * 4 - fat * 9, 0) / 4
+
+  return {
+    calories,
+    protein,
+    carbs,
+    fat,
+    fiber: (calories / 1000) * FIBER_PER_1000_KCAL,
+    sodium: SODIUM_LIMIT,
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatDecimal,
+  parseQuantity,
+  roundCount,
+  roundMetric,
+  roundQuantity,
+  roundToKitchenFraction,
+} from '@/lib/quantity'
+
+describe('parseQuantity', () => {
+  it('parses decimals, fractions and mixed numbers', () => {
+    expect(parseQuantity('2')).toBe(2)
+    expect(parseQuantity('1.5')).toBe(1.5)
+    expect(parseQuantity('1/2')).toBe(0.5)
+    expect(parseQuantity('1 1/2')).toBe(1.5)
+    expect(parseQuantity(' 3 / 4 ')).toBe(0.75)
+  })
+
+  it('parses fraction glyphs', () => {
+    expect(parseQuantity('½')).toBe(0.5)
+    expect(parseQuantity('1½')).toBe(1.5)
+    expect(parseQuantity('2 ¼')).toBe(2.25)
+  })
+
+  it('returns null for text that is not a quantity', () => {
+    expect(parseQuantity('')).toBeNull()
+    expect(parseQuantity('a pinch')).toBeNull()
+    expect(parseQuantity('1/0')).toBeNull()
+  })
+})
+
+describe('formatDecimal', () => {
+  it('drops trailing zeros', () => {
+    expect(formatDecimal(2)).toBe('2')
+    expect(formatDecimal(1.5)).toBe('1.5')
+    expect(formatDecimal(1.23456)).toBe('1.23')
+    expect(formatDecimal(1234.5, 1)).toBe('1234.5')
+  })
+})
+
+describe('roundToKitchenFraction', () => {
+  it('snaps to the nearest kitchen fraction', () => {
+    expect(roundToKitchenFraction(1.3).text).toBe('1 ⅓')
+    expect(roundToKitchenFraction(0.5).text).toBe('½')
+    expect(roundToKitchenFraction(2.7).text).toBe('2 ⅔')
+  })
+
+  it('carries a fraction that rounds up to a whole', () => {
+    const rounded = roundToKitchenFraction(1.95)
+    expect(rounded.value).toBe(2)
+    expect(rounded.text).toBe('2')
+  })
+
+  it('never rounds a non-zero amount to zero', () => {
+    expect(roundToKitchenFraction(0.01).text).toBe('⅛')
+    expect(roundToKitchenFraction(0).text).toBe('0')
+  })
+
+  it('reports the relative rounding error', () => {
+    expect(roundToKitchenFraction(0.3).error).toBeCloseTo(1 / 0.9 - 1)
+  })
+})
+
+describe('roundCount', () => {
+  it('rounds to whole or half items and keeps at least one step', () => {
+    expect(roundCount(2.4).value).toBe(2)
+    expect(roundCount(2.4, 0.5).text).toBe('2 ½')
+    expect(roundCount(0.2).value).toBe(1)
+    expect(roundCount(0.1, 0.5).text).toBe('½')
+  })
+})
+
+describe('roundMetric', () => {
+  it('rounds to 5 above 100 and to 1 below', () => {
+    expect(roundMetric(123).value).toBe(125)
+    expect(roundMetric(42.4).value).toBe(42)
+  })
+
+  it('keeps small amounts instead of rounding them away', () => {
+    expect(roundMetric(0.3).value).toBe(0.3)
+  })
+
+  it('rounds larger units in their base unit', () => {
+    expect(roundMetric(1.234, 1000).value).toBe(1.235)
+  })
+})
+
+describe('roundQuantity', () => {
+  it('rounds by unit and mode', () => {
+    expect(roundQuantity(1.3, 'cup', 'kitchen').text).toBe('1 ⅓')
+    expect(roundQuantity(123, 'g', 'kitchen').text).toBe('125')
+    expect(roundQuantity(1.2345, 'g', 'exact').text).toBe('1.23')
+  })
+})
+
+describe('roundQuantity for counted items', () => {
+  it('snaps them in every mode', () => {
+    expect(roundQuantity(2.4, 'eggs', 'exact').value).toBe(2)
+    expect(roundQuantity(0.3, 'clove', 'kitchen').text).toBe('1')
+  })
+})
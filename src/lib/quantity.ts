@@ -0,0 +1,159 @@
+import { findUnit } from '@/lib/units'
+
+export type RoundingMode = 'exact' | 'kitchen'
+
+export type RoundedQuantity = {
+  exact: number
+  value: number
+  text: string
+  // Relative difference between the rounded and the exact value
+  error: number
+}
+
+// Rounding errors above this share of the exact value are shown to the cook
+export const ROUNDING_TOLERANCE = 0.05
+
+const KITCHEN_FRACTIONS = [
+  { value: 0, glyph: '' },
+  { value: 1 / 8, glyph: '⅛' },
+  { value: 1 / 4, glyph: '¼' },
+  { value: 1 / 3, glyph: '⅓' },
+  { value: 1 / 2, glyph: '½' },
+  { value: 2 / 3, glyph: '⅔' },
+  { value: 3 / 4, glyph: '¾' },
+  { value: 1, glyph: '' },
+]
+
+const FRACTION_GLYPHS: Record<string, number> = {
+  '⅛': 1 / 8,
+  '¼': 1 / 4,
+  '⅓': 1 / 3,
+  '½': 1 / 2,
+  '⅔': 2 / 3,
+  '¾': 3 / 4,
+}
+
+// Parses typed quantities such as "2", "1.5", "1/2", "1 1/2", "½" or "1½".
+// Returns null when the text is not a quantity.
+export function parseQuantity(text: string): number | null {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+
+  const glyph = Object.keys(FRACTION_GLYPHS).find((key) =>
+    trimmed.endsWith(key),
+  )
+  if (glyph) {
+    const whole = trimmed.slice(0, -glyph.length).trim()
+    const wholeValue = whole ? Number(whole) : 0
+    return isNaN(wholeValue) ? null : wholeValue + FRACTION_GLYPHS[glyph]
+  }
+
+  const mixed = trimmed.match(/^(?:(\d+)\s+)?(\d+)\s*\/\s*(\d+)$/)
+  if (mixed) {
+    const [, whole, numerator, denominator] = mixed
+    if (Number(denominator) === 0) return null
+    return (whole ? Number(whole) : 0) + Number(numerator) / Number(denominator)
+  }
+
+  const value = Number.parseFloat(trimmed)
+  return isNaN(value) ? null : value
+}
+
+// Format to at most 2 decimal places, but avoid trailing zeros
+export function formatDecimal(value: number, maximumFractionDigits = 2) {
+  return value
+    .toLocaleString('en-US', {
+      maximumFractionDigits,
+      useGrouping: false,
+    })
+    .replace(/\.0+$/, '')
+}
+
+// Snaps a value to the nearest whole number plus kitchen fraction and renders
+// it as a mixed number such as "1 ⅓". Non-zero amounts never round to zero.
+export function roundToKitchenFraction(value: number): RoundedQuantity {
+  let whole = Math.floor(value)
+  const remainder = value - whole
+  let fraction = KITCHEN_FRACTIONS.reduce((nearest, candidate) =>
+    Math.abs(candidate.value - remainder) < Math.abs(nearest.value - remainder)
+      ? candidate
+      : nearest,
+  )
+  if (fraction.value === 1) {
+    whole += 1
+    fraction = KITCHEN_FRACTIONS[0]
+  }
+  if (whole === 0 && fraction.value === 0 && value > 0) {
+    fraction = KITCHEN_FRACTIONS[1]
+  }
+
+  const rounded = whole + fraction.value
+  const text = formatMixedNumber(whole, fraction.glyph)
+
+  return {
+    exact: value,
+    value: rounded,
+    text,
+    error: relativeError(rounded, value),
+  }
+}
+
+// Rounds counted items to whole or half items. At least one step is kept so
+// that an ingredient never disappears from the recipe.
+export function roundCount(value: number, step = 1): RoundedQuantity {
+  const rounded = Math.max(step, Math.round(value / step) * step)
+  const whole = Math.floor(rounded)
+  const glyph =
+    KITCHEN_FRACTIONS.find((fraction) => fraction.value === rounded - whole)
+      ?.glyph ?? ''
+
+  return {
+    exact: value,
+    value: rounded,
+    text: formatMixedNumber(whole, glyph),
+    error: relativeError(rounded, value),
+  }
+}
+
+// Rounds a metric amount to the nearest 5 g/ml above 100 and the nearest
+// 1 g/ml below, working in the base unit so that kg and l follow the same rule
+export function roundMetric(value: number, toBase = 1): RoundedQuantity {
+  const base = value * toBase
+  const step = base >= 100 ? 5 : 1
+  let roundedBase = Math.round(base / step) * step
+  if (roundedBase === 0 && base > 0) roundedBase = Math.round(base * 10) / 10
+
+  const rounded = roundedBase / toBase
+  return {
+    exact: value,
+    value: rounded,
+    text: formatDecimal(rounded, Math.max(2, Math.log10(toBase))),
+    error: relativeError(rounded, value),
+  }
+}
+
+export function roundQuantity(
+  value: number,
+  unit: string,
+  mode: RoundingMode,
+): RoundedQuantity {
+  // Counted items are snapped to whole or half items in every rounding mode
+  const definition = findUnit(unit)
+  if (definition?.dimension === 'count') {
+    return roundCount(value, definition.countStep)
+  }
+
+  if (mode === 'exact') {
+    return { exact: value, value, text: formatDecimal(value), error: 0 }
+  }
+
+  return definition?.system === 'metric'
+    ? roundMetric(value, definition.toBase)
+    : roundToKitchenFraction(value)
+}
+
+const formatMixedNumber = (whole: number, glyph: string) =>
+  [whole > 0 ? whole.toString() : '', glyph].filter(Boolean).join(' ') || '0'
+
+const relativeError = (rounded: number, exact: number) =>
+  exact === 0 ? 0 : (rounded - exact) / exact
@@ -0,0 +1,121 @@
+import type { PantryItem } from '@/lib/pantry'
+import type { Ingredient } from '@/lib/types'
+import { toPurchasedQuantity } from '@/lib/edible'
+import { getPantryAvailability } from '@/lib/pantry'
+import { parseQuantity } from '@/lib/quantity'
+import { getPortionRatio, resolveScalingPolicy } from '@/lib/scaling'
+
+export type SavedRecipe = {
+  id: string
+  name: string
+  portions: number
+  ingredients: Array<Ingredient>
+  // ISO timestamp of the last save
+  savedAt: string
+}
+
+export type CookableRecipe = {
+  recipe: SavedRecipe
+  // Whole portions the pantry allows, null when no row limits them
+  maxPortions: number | null
+  // Rows with nothing at home
+  missing: Array<string>
+  // Rows whose pantry amount cannot be converted to the recipe's unit
+  unknown: Array<string>
+}
+
+// Recipes with more missing rows than this are not worth suggesting
+export const MAX_MISSING_INGREDIENTS = 3
+
+// Saves the current recipe, replacing a saved one of the same name
+export function saveRecipe(
+  recipes: Array<SavedRecipe>,
+  recipe: Omit<SavedRecipe, 'id' | 'savedAt'>,
+): Array<SavedRecipe> {
+  const name = recipe.name.trim()
+  const existing = recipes.find(
+    (candidate) => candidate.name.toLowerCase() === name.toLowerCase(),
+  )
+  const saved = {
+    ...recipe,
+    name,
+    id: existing?.id ?? crypto.randomUUID(),
+    savedAt: new Date().toISOString(),
+  }
+
+  return existing
+    ? recipes.map((candidate) =>
+        candidate.id === existing.id ? saved : candidate,
+      )
+    : [...recipes, saved]
+}
+
+export const canCookNow = ({ missing, maxPortions }: CookableRecipe) =>
+  missing.length === 0 && maxPortions !== 0
+
+// Checks a saved recipe against the pantry. Each row limits the batch the
+// same way "use up to" amounts do: the purchased amount is scaled by the
+// row's policy, so the portion ratio is the inverse of its scale factor.
+// Fixed rows either fit at any size or not at all, and to-taste rows are
+// never required.
+export function getCookableRecipe(
+  recipe: SavedRecipe,
+  pantry: Array<PantryItem>,
+): CookableRecipe {
+  const missing: Array<string> = []
+  const unknown: Array<string> = []
+  const limits: Array<number> = []
+
+  for (const ingredient of recipe.ingredients) {
+    const typed = parseQuantity(ingredient.quantity)
+    const policy = resolveScalingPolicy(ingredient)
+    if (!ingredient.name.trim() || !typed || policy === 'to-taste') continue
+
+    const quantity = toPurchasedQuantity(typed, ingredient)
+    const { status, available } = getPantryAvailability(
+      quantity,
+      ingredient,
+      pantry,
+    )
+    if (status === 'missing') {
+      missing.push(ingredient.name)
+      limits.push(0)
+      continue
+    }
+    if (available === null) {
+      unknown.push(ingredient.name)
+      continue
+    }
+
+    const ratio = getPortionRatio(policy, available / quantity)
+    if (ratio !== null) limits.push(ratio * recipe.portions)
+    else if (available < quantity * 0.999) limits.push(0)
+  }
+
+  return {
+    recipe,
+    // Tolerate floating point drift right at a whole portion
+    maxPortions:
+      limits.length === 0 ? null : Math.floor(Math.min(...limits) + 1e-9),
+    missing,
+    unknown,
+  }
+}
+
+// Recipes that can be cooked now, most portions first, followed by those
+// missing the fewest rows
+export function rankCookableRecipes(
+  recipes: Array<SavedRecipe>,
+  pantry: Array<PantryItem>,
+): Array<CookableRecipe> {
+  return recipes
+    .map((recipe) => getCookableRecipe(recipe, pantry))
+    .filter(({ missing }) => missing.length <= MAX_MISSING_INGREDIENTS)
+    .sort(
+      (a, b) =>
+        Number(canCookNow(b)) - Number(canCookNow(a)) ||
+        a.missing.length - b.missing.length ||
+        (b.maxPortions ?? Infinity) - (a.maxPortions ?? Infinity) ||
+        a.recipe.name.localeCompare(b.recipe.name),
+    )
+}
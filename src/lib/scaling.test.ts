@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import type { Ingredient } from '@/lib/types'
+import {
+  findLimitingIngredient,
+  findPackagePortions,
+  getAvailableRatio,
+  getPortionRatio,
+  getScaleFactor,
+  solvePortionsForTarget,
+  suggestScalingPolicy,
+} from '@/lib/scaling'
+
+const ingredient = (fields: Partial<Ingredient>): Ingredient => ({
+  name: '',
+  quantity: '',
+  unit: 'g',
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  ...fields,
+})
+
+describe('suggestScalingPolicy', () => {
+  it('scales seasonings and leavening sub-linearly', () => {
+    expect(suggestScalingPolicy('Sea salt')).toBe('sub-linear')
+    expect(suggestScalingPolicy('black pepper')).toBe('sub-linear')
+    expect(suggestScalingPolicy('chili powder')).toBe('sub-linear')
+    expect(suggestScalingPolicy('Baking powder')).toBe('sub-linear')
+    expect(suggestScalingPolicy('dry yeast')).toBe('sub-linear')
+  })
+
+  it('matches whole words only', () => {
+    for (const name of [
+      'bell pepper',
+      'red peppers',
+      'salted butter',
+      'salted peanuts',
+      'chili beans',
+      'curry leaves',
+      'spiced rum',
+    ]) {
+      expect(suggestScalingPolicy(name)).toBe('linear')
+    }
+  })
+})
+
+describe('getScaleFactor', () => {
+  it('leaves fixed and to-taste rows alone', () => {
+    expect(getScaleFactor('fixed', 3)).toBe(1)
+    expect(getScaleFactor('to-taste', 0.5)).toBe(1)
+  })
+
+  it('scales sub-linearly only far from the original batch', () => {
+    expect(getScaleFactor('sub-linear', 1.25)).toBe(1.25)
+    expect(getScaleFactor('sub-linear', 0.5)).toBe(0.5)
+    expect(getScaleFactor('sub-linear', 4)).toBeCloseTo(3.364, 3)
+    expect(getScaleFactor('sub-linear', 0.1)).toBeCloseTo(0.1495, 4)
+  })
+
+  it('is undone by getPortionRatio', () => {
+    for (const ratio of [0.1, 0.5, 1.5, 2, 6]) {
+      expect(
+        getPortionRatio('sub-linear', getScaleFactor('sub-linear', ratio)),
+      ).toBeCloseTo(ratio)
+    }
+    expect(getPortionRatio('fixed', 2)).toBeNull()
+  })
+})
+
+describe('getAvailableRatio', () => {
+  it('compares the available amount in another unit', () => {
+    expect(
+      getAvailableRatio(
+        ingredient({
+          name: 'Rice',
+          quantity: '200',
+          available: '1',
+          availableUnit: 'kg',
+        }),
+      ),
+    ).toBeCloseTo(5)
+  })
+
+  it('returns null without an available amount', () => {
+    expect(
+      getAvailableRatio(ingredient({ name: 'Rice', quantity: '200' })),
+    ).toBeNull()
+  })
+})
+
+describe('findLimitingIngredient', () => {
+  it('picks the row that allows the smallest batch', () => {
+    const limiting = findLimitingIngredient([
+      ingredient({ name: 'Rice', quantity: '200', available: '400' }),
+      ingredient({ name: 'Chicken', quantity: '500', available: '750' }),
+    ])
+    expect(limiting).toEqual({ index: 1, ratio: 1.5 })
+  })
+
+  it('limits the batch to nothing when none is on hand', () => {
+    const limiting = findLimitingIngredient([
+      ingredient({ name: 'Chicken', quantity: '500', available: '0' }),
+      ingredient({ name: 'Rice', quantity: '200', available: '400' }),
+    ])
+    expect(limiting).toEqual({ index: 0, ratio: 0 })
+  })
+})
+
+describe('solvePortionsForTarget', () => {
+  it('finds the whole number of portions closest to the target', () => {
+    const solution = solvePortionsForTarget(2400, 550)
+    expect(solution?.portions).toBe(4)
+    expect(solution?.achieved).toBe(600)
+  })
+
+  it('needs a positive total and target', () => {
+    expect(solvePortionsForTarget(0, 550)).toBeNull()
+    expect(solvePortionsForTarget(2400, 0)).toBeNull()
+  })
+})
+
+describe('findPackagePortions', () => {
+  it('prefers portion counts that use whole packages', () => {
+    const candidates = findPackagePortions(
+      [
+        ingredient({
+          name: 'Coconut milk',
+          quantity: '1',
+          unit: 'can',
+          packageSize: '1',
+        }),
+        ingredient({ name: 'Beef mince', quantity: '340', packageSize: '500' }),
+      ],
+      4,
+      4,
+    )
+    const whole = candidates.find((candidate) => candidate.waste === 0)
+    expect(whole?.portions).toBe(12)
+    expect(whole?.leftovers.map(({ packages }) => packages)).toEqual([3, 2])
+  })
+
+  it('skips rows that opt out', () => {
+    expect(
+      findPackagePortions(
+        [
+          ingredient({
+            name: 'Beef mince',
+            quantity: '340',
+            packageSize: '500',
+            wholePackages: false,
+          }),
+        ],
+        4,
+        4,
+      ),
+    ).toEqual([])
+  })
+})
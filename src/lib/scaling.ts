@@ -0,0 +1,300 @@
+import type { Ingredient } from '@/lib/types'
+import { getPackageCount } from '@/lib/cost'
+import { toGrams } from '@/lib/density'
+import { toPurchasedQuantity } from '@/lib/edible'
+import { matchesAnyKeyword } from '@/lib/keywords'
+import { parseQuantity } from '@/lib/quantity'
+import { convertQuantity } from '@/lib/units'
+
+export type ScalingPolicy = 'linear' | 'fixed' | 'to-taste' | 'sub-linear'
+
+export const SCALING_POLICIES: Array<{
+  value: ScalingPolicy
+  label: string
+  description: string
+}> = [
+  {
+    value: 'linear',
+    label: 'Linear',
+    description: 'Scales with the number of portions',
+  },
+  {
+    value: 'fixed',
+    label: 'Fixed',
+    description: 'Same amount whatever the batch size, e.g. one bay leaf',
+  },
+  {
+    value: 'to-taste',
+    label: 'To taste',
+    description:
+      'Not scaled, and only counted in the nutrition when a quantity is given',
+  },
+  {
+    value: 'sub-linear',
+    label: 'Sub-linear',
+    description:
+      'Grows slower than the batch when scaling far up or down, for salt, spices and leavening agents',
+  },
+]
+
+// Seasonings and leavening scale linearly up to this ratio (or down to its
+// inverse) and by ratio^0.75 beyond it: quadrupling a batch takes about 3.4
+// times the salt, a tenth of it about 0.15 times
+const SUB_LINEAR_EXPONENT = 0.75
+const SUB_LINEAR_THRESHOLD = 2
+
+// Scale factors beyond this (or below its inverse) upset leavening
+export const LEAVENING_WARNING_RATIO = 2
+
+// Whole words only, so that salted butter, bell peppers or curry leaves
+// keep scaling linearly
+const SEASONING_KEYWORDS = [
+  'salt',
+  'black pepper',
+  'white pepper',
+  'ground pepper',
+  'peppercorn',
+  'chili powder',
+  'chilli powder',
+  'chili flakes',
+  'chilli flakes',
+  'cayenne',
+  'paprika',
+  'cumin',
+  'cinnamon',
+  'nutmeg',
+  'spice',
+  'curry powder',
+]
+
+const LEAVENING_KEYWORDS = [
+  'baking powder',
+  'baking soda',
+  'bicarbonate',
+  'yeast',
+  'cream of tartar',
+]
+
+export function isLeavening(name: string) {
+  return matchesAnyKeyword(name, LEAVENING_KEYWORDS)
+}
+
+// Default policy for rows the cook has not set one for explicitly
+export function suggestScalingPolicy(name: string): ScalingPolicy {
+  return isLeavening(name) || matchesAnyKeyword(name, SEASONING_KEYWORDS)
+    ? 'sub-linear'
+    : 'linear'
+}
+
+export function resolveScalingPolicy(
+  ingredient: Pick<Ingredient, 'name' | 'policy'>,
+): ScalingPolicy {
+  return ingredient.policy ?? suggestScalingPolicy(ingredient.name)
+}
+
+// Linear within the threshold and a power curve continuing from its edge
+// beyond it. With the inverse exponent this maps scale factors back to
+// ratios, as the threshold is a fixed point of both curves.
+const getSubLinearFactor = (ratio: number, exponent: number) => {
+  if (ratio > SUB_LINEAR_THRESHOLD) {
+    return (
+      SUB_LINEAR_THRESHOLD * Math.pow(ratio / SUB_LINEAR_THRESHOLD, exponent)
+    )
+  }
+  if (ratio < 1 / SUB_LINEAR_THRESHOLD) {
+    return (
+      Math.pow(ratio * SUB_LINEAR_THRESHOLD, exponent) / SUB_LINEAR_THRESHOLD
+    )
+  }
+  return ratio
+}
+
+export function getScaleFactor(policy: ScalingPolicy, ratio: number) {
+  switch (policy) {
+    case 'fixed':
+    case 'to-taste':
+      return 1
+    case 'sub-linear':
+      return getSubLinearFactor(ratio, SUB_LINEAR_EXPONENT)
+    default:
+      return ratio
+  }
+}
+
+// Inverse of getScaleFactor: the portion ratio at which a row is scaled by
+// the given factor. Rows that do not scale never constrain the batch.
+export function getPortionRatio(policy: ScalingPolicy, scaleFactor: number) {
+  switch (policy) {
+    case 'fixed':
+    case 'to-taste':
+      return null
+    case 'sub-linear':
+      return getSubLinearFactor(scaleFactor, 1 / SUB_LINEAR_EXPONENT)
+    default:
+      return scaleFactor
+  }
+}
+
+// Ratio between the amount available and the amount the recipe calls for.
+// The available amount may be given in any unit that converts to the row's
+// unit, going through the density or item weight between mass and volume.
+export function getAvailableRatio(ingredient: Ingredient): number | null {
+  const typed = parseQuantity(ingredient.quantity)
+  const available = parseQuantity(ingredient.available ?? '')
+  if (!typed || available === null) return null
+
+  // Stock on hand is purchased weight, whatever the recipe row is written in
+  const quantity = toPurchasedQuantity(typed, ingredient)
+
+  const availableUnit = ingredient.availableUnit?.trim() || ingredient.unit
+  if (availableUnit === ingredient.unit) return available / quantity
+
+  const converted = convertQuantity(available, availableUnit, ingredient.unit)
+  if (converted !== null) return converted / quantity
+
+  const availableGrams = toGrams(available, {
+    ...ingredient,
+    unit: availableUnit,
+  })
+  const requiredGrams = toGrams(quantity, ingredient)
+  return availableGrams !== null && requiredGrams
+    ? availableGrams / requiredGrams
+    : null
+}
+
+// Picks the row whose available amount allows the smallest batch
+export function findLimitingIngredient(
+  ingredients: Array<Ingredient>,
+): { index: number; ratio: number } | null {
+  return ingredients.reduce<{ index: number; ratio: number } | null>(
+    (limiting, ingredient, index) => {
+      const availableRatio = getAvailableRatio(ingredient)
+      if (availableRatio === null) return limiting
+
+      const ratio = getPortionRatio(
+        resolveScalingPolicy(ingredient),
+        availableRatio,
+      )
+      // None on hand limits the batch to nothing
+      if (ratio === null || ratio < 0) return limiting
+
+      return !limiting || ratio < limiting.ratio ? { index, ratio } : limiting
+    },
+    null,
+  )
+}
+
+// Number of portions that brings a batch closest to a per-serving target,
+// e.g. 550 kcal or 40 g protein per serving
+export function solvePortionsForTarget(total: number, perServing: number) {
+  if (!(total > 0) || !(perServing > 0)) return null
+
+  const exact = total / perServing
+  const portions = Math.max(1, Math.round(exact))
+  const achieved = total / portions
+
+  return {
+    exact,
+    portions,
+    achieved,
+    error: (achieved - perServing) / perServing,
+  }
+}
+
+// Share of a package below which a leftover or a shortfall counts as none
+export const WHOLE_PACKAGE_TOLERANCE = 0.05
+
+export type PackageLeftover = {
+  index: number
+  // Packages to buy and the amount left over, in the package unit
+  packages: number
+  leftover: number
+  unit: string
+  // Leftover as a share of one package
+  share: number
+}
+
+export type PackagePortions = {
+  portions: number
+  leftovers: Array<PackageLeftover>
+  // Sum of the leftover package shares, 0 when every package is used up
+  waste: number
+}
+
+// Rows with a package size take part in package-aware scaling unless they
+// are opted out
+export function usesWholePackages(ingredient: Ingredient) {
+  return (
+    ingredient.wholePackages !== false &&
+    !!parseQuantity(ingredient.packageSize ?? '') &&
+    parseQuantity(ingredient.quantity) !== null
+  )
+}
+
+// Leftovers of the packaged rows when the recipe is scaled to a portion count
+export function getPackageLeftovers(
+  ingredients: Array<Ingredient>,
+  originalPortions: number,
+  portions: number,
+): PackagePortions {
+  const ratio = portions / originalPortions
+  const leftovers = ingredients.flatMap((ingredient, index) => {
+    const typed = parseQuantity(ingredient.quantity)
+    const packageSize = parseQuantity(ingredient.packageSize ?? '')
+    if (!usesWholePackages(ingredient) || typed === null || !packageSize) {
+      return []
+    }
+
+    const quantity =
+      toPurchasedQuantity(typed, ingredient) *
+      getScaleFactor(resolveScalingPolicy(ingredient), ratio)
+    const count = getPackageCount(quantity, ingredient)
+    if (count === null || count <= 0) return []
+
+    const packages = Math.max(1, Math.ceil(count - WHOLE_PACKAGE_TOLERANCE))
+    const rest = packages - count
+    const share = rest > WHOLE_PACKAGE_TOLERANCE ? rest : 0
+    return [
+      {
+        index,
+        packages,
+        leftover: share * packageSize,
+        unit: ingredient.packageUnit?.trim() || ingredient.unit,
+        share,
+      },
+    ]
+  })
+
+  return {
+    portions,
+    leftovers,
+    waste: leftovers.reduce((total, leftover) => total + leftover.share, 0),
+  }
+}
+
+// Portion counts up to maxPortions at which the packaged rows come closest
+// to whole packages, nearest the desired portions among equals. Returned in
+// ascending portion order.
+export function findPackagePortions(
+  ingredients: Array<Ingredient>,
+  originalPortions: number,
+  desiredPortions: number,
+  maxPortions = 20,
+  limit = 3,
+): Array<PackagePortions> {
+  if (!ingredients.some(usesWholePackages) || !(originalPortions > 0)) {
+    return []
+  }
+
+  return Array.from({ length: maxPortions }, (_, i) =>
+    getPackageLeftovers(ingredients, originalPortions, i + 1),
+  )
+    .sort(
+      (a, b) =>
+        a.waste - b.waste ||
+        Math.abs(a.portions - desiredPortions) -
+          Math.abs(b.portions - desiredPortions),
+    )
+    .slice(0, limit)
+    .sort((a, b) => a.portions - b.portions)
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import type { Ingredient } from '@/lib/types'
+import {
+  formatShoppingList,
+  getStoreSection,
+  mergeShoppingList,
+  toPurchasableQuantity,
+  toShoppingList,
+} from '@/lib/shopping'
+
+const ingredient = (fields: Partial<Ingredient>): Ingredient => ({
+  name: '',
+  quantity: '',
+  unit: 'g',
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  ...fields,
+})
+
+const section = (name: string) => getStoreSection({ name })
+
+describe('getStoreSection', () => {
+  it('finds the section from whole words of the name', () => {
+    expect(section('Sea salt')).toBe('spices')
+    expect(section('bay leaves')).toBe('spices')
+    expect(section('plain flour')).toBe('baking')
+    expect(section('burger buns')).toBe('bakery')
+    expect(section('red onions')).toBe('produce')
+    expect(section('canned chickpeas')).toBe('pantry')
+  })
+
+  it('does not read words that merely start with a keyword', () => {
+    expect(section('salted butter')).toBe('dairy-eggs')
+    expect(section('green beans')).toBe('produce')
+    expect(section('rolled oats')).toBe('pantry')
+    expect(section('sugar snap peas')).toBe('produce')
+  })
+
+  it('falls back to the food categories', () => {
+    expect(section('chicken thighs')).toBe('meat-fish')
+    expect(section('free-range eggs')).toBe('dairy-eggs')
+    expect(getStoreSection({ name: 'kiwi', categories: ['fruit'] })).toBe(
+      'produce',
+    )
+    expect(section('something else')).toBe('other')
+  })
+})
+
+describe('toPurchasableQuantity', () => {
+  it('buys whole items and weighs kitchen measures', () => {
+    expect(
+      toPurchasableQuantity(2.3, ingredient({ name: 'eggs', unit: 'egg' })),
+    ).toEqual({ value: 3, unit: 'egg' })
+    expect(
+      toPurchasableQuantity(
+        2,
+        ingredient({ name: 'flour', unit: 'cup' }),
+        'metric',
+      ),
+    ).toEqual({ value: 240, unit: 'g' })
+    expect(toPurchasableQuantity(1250, ingredient({ name: 'rice' }))).toEqual({
+      value: 1.3,
+      unit: 'kg',
+    })
+  })
+})
+
+describe('toShoppingList', () => {
+  it('adds up rows of the same ingredient', () => {
+    const items = toShoppingList([
+      { ingredient: ingredient({ name: 'Butter' }), quantity: 100 },
+      {
+        ingredient: ingredient({ name: 'butter', unit: 'kg' }),
+        quantity: 0.05,
+      },
+      {
+        ingredient: ingredient({
+          name: 'flour',
+          packageSize: '1',
+          packageUnit: 'kg',
+        }),
+        quantity: 1500,
+      },
+    ])
+    expect(items).toMatchObject([
+      { id: 'butter|g', name: 'Butter', amount: '150 g' },
+      { id: 'flour|kg', amount: '1.5 kg', packages: '2 × 1 kg' },
+    ])
+  })
+
+  it('keeps ids unique for rows that do not convert', () => {
+    const items = toShoppingList([
+      { ingredient: ingredient({ name: 'basil', unit: 'bunch' }), quantity: 1 },
+      { ingredient: ingredient({ name: 'basil', unit: 'g' }), quantity: 10 },
+    ])
+    expect(new Set(items.map(({ id }) => id)).size).toBe(2)
+  })
+})
+
+describe('mergeShoppingList and formatShoppingList', () => {
+  it('keeps ticks and lists items by section', () => {
+    const [butter, flour] = toShoppingList([
+      { ingredient: ingredient({ name: 'butter' }), quantity: 100 },
+      { ingredient: ingredient({ name: 'flour' }), quantity: 500 },
+    ])
+    const items = mergeShoppingList(
+      [{ ...butter, checked: true }],
+      [butter, flour],
+    )
+    expect(items.map(({ checked }) => checked)).toEqual([true, false])
+    expect(formatShoppingList(items)).toBe(
+      'Dairy & Eggs:\n- butter, 100 g (done)\n\nBaking:\n- flour, 500 g\n',
+    )
+  })
+})
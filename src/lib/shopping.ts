@@ -0,0 +1,290 @@
+import type { Ingredient } from '@/lib/types'
+import type { MeasurementSystem } from '@/lib/units'
+import { getPackageCount } from '@/lib/cost'
+import { toGrams } from '@/lib/density'
+import { getFoodCategories } from '@/lib/food-categories'
+import { matchesAnyKeyword } from '@/lib/keywords'
+import { convertForIngredient } from '@/lib/pantry'
+import { formatDecimal } from '@/lib/quantity'
+import { findUnit, formatUnit, toReadableUnit } from '@/lib/units'
+
+export type StoreSection =
+  | 'produce'
+  | 'meat-fish'
+  | 'dairy-eggs'
+  | 'bakery'
+  | 'baking'
+  | 'pantry'
+  | 'spices'
+  | 'other'
+
+export type ShoppingItem = {
+  // Name and unit, so that ticks survive a regenerated list. Unique within
+  // a list, as rows of the same ingredient are merged.
+  id: string
+  name: string
+  amount: string
+  // Whole packages to buy, e.g. "2 × 500 g", when the size is known
+  packages: string | null
+  section: StoreSection
+  checked: boolean
+}
+
+// In walking order through a typical store
+export const STORE_SECTIONS: Array<{ id: StoreSection; label: string }> = [
+  { id: 'produce', label: 'Produce' },
+  { id: 'bakery', label: 'Bakery' },
+  { id: 'meat-fish', label: 'Meat & Fish' },
+  { id: 'dairy-eggs', label: 'Dairy & Eggs' },
+  { id: 'baking', label: 'Baking' },
+  { id: 'pantry', label: 'Pantry' },
+  { id: 'spices', label: 'Spices' },
+  { id: 'other', label: 'Other' },
+]
+
+// Name keywords for sections that the food categories do not cover. More
+// specific entries come first so that "black pepper" is not read as produce
+// and "sugar snap peas" not as baking.
+const SECTION_KEYWORDS: Array<{
+  section: StoreSection
+  keywords: Array<string>
+}> = [
+  { section: 'produce', keywords: ['sugar snap', 'snap pea', 'green bean'] },
+  {
+    section: 'spices',
+    keywords: [
+      'salt',
+      'black pepper',
+      'peppercorn',
+      'cumin',
+      'paprika',
+      'cinnamon',
+      'nutmeg',
+      'turmeric',
+      'oregano',
+      'chili powder',
+      'bay leaf',
+    ],
+  },
+  {
+    section: 'baking',
+    keywords: [
+      'flour',
+      'sugar',
+      'baking powder',
+      'baking soda',
+      'yeast',
+      'cocoa',
+      'vanilla',
+      'chocolate',
+    ],
+  },
+  { section: 'bakery', keywords: ['bread', 'bun', 'roll', 'tortilla'] },
+  {
+    section: 'produce',
+    keywords: [
+      'onion',
+      'garlic',
+      'potato',
+      'carrot',
+      'tomato',
+      'pepper',
+      'lettuce',
+      'spinach',
+      'cucumber',
+      'zucchini',
+      'mushroom',
+      'apple',
+      'banana',
+      'lemon',
+      'lime',
+      'avocado',
+      'parsley',
+      'basil',
+      'cilantro',
+      'ginger',
+    ],
+  },
+  {
+    section: 'pantry',
+    keywords: [
+      'rice',
+      'pasta',
+      'oat',
+      'oil',
+      'vinegar',
+      'stock',
+      'can',
+      'canned',
+      'tinned',
+      'bean',
+    ],
+  },
+]
+
+export function getStoreSection(
+  ingredient: Pick<Ingredient, 'name' | 'categories'>,
+): StoreSection {
+  const byName = SECTION_KEYWORDS.find(({ keywords }) =>
+    matchesAnyKeyword(ingredient.name, keywords),
+  )
+  if (byName) return byName.section
+
+  const categories = getFoodCategories(ingredient)
+  if (
+    categories.some((category) =>
+      ['meat', 'poultry', 'fish', 'shellfish'].includes(category),
+    )
+  ) {
+    return 'meat-fish'
+  }
+  if (categories.some((category) => ['dairy', 'egg'].includes(category))) {
+    return 'dairy-eggs'
+  }
+  if (
+    categories.some((category) => ['fruit', 'vegetable'].includes(category))
+  ) {
+    return 'produce'
+  }
+  if (categories.includes('spice')) return 'spices'
+  return categories.length > 0 ? 'pantry' : 'other'
+}
+
+// Cups and spoons are kitchen measures, nothing is sold in them
+const KITCHEN_MEASURES = ['tsp', 'tbsp', 'cup']
+
+// Rounds up so that the list never buys short, but not on floating-point
+// noise such as 240.00000000000003 g
+const roundUp = (value: number) =>
+  value >= 10 ? Math.ceil(value - 1e-9) : Math.ceil(value * 10 - 1e-9) / 10
+
+// Re-expresses a purchased quantity in a unit it can be bought in: counted
+// items in whole units, kitchen measures by weight where the row can be
+// weighed, and everything in its most readable unit
+export function toPurchasableQuantity(
+  quantity: number,
+  ingredient: Ingredient,
+  system?: MeasurementSystem,
+): { value: number; unit: string } {
+  const definition = findUnit(ingredient.unit)
+  if (!definition) return { value: quantity, unit: ingredient.unit }
+  if (definition.dimension === 'count') {
+    return { value: Math.ceil(quantity), unit: ingredient.unit }
+  }
+
+  const targetSystem =
+    system ?? (definition.system === 'none' ? undefined : definition.system)
+  const grams = KITCHEN_MEASURES.includes(definition.id)
+    ? toGrams(quantity, ingredient)
+    : null
+  const readable =
+    grams === null
+      ? toReadableUnit(quantity, ingredient.unit, targetSystem)
+      : toReadableUnit(grams, 'g', targetSystem)
+
+  return { value: roundUp(readable.value), unit: readable.unit }
+}
+
+// Builds a list entry from the purchased amount of the adjusted recipe
+export function toShoppingItem(
+  quantity: number,
+  ingredient: Ingredient,
+  system?: MeasurementSystem,
+): ShoppingItem {
+  const purchasable = toPurchasableQuantity(quantity, ingredient, system)
+  const packageCount = getPackageCount(quantity, ingredient)
+  const packageUnit = ingredient.packageUnit?.trim() || ingredient.unit
+
+  return {
+    id: `${ingredient.name.trim().toLowerCase()}|${purchasable.unit}`,
+    name: ingredient.name.trim(),
+    amount: `${formatDecimal(purchasable.value)} ${formatUnit(purchasable.unit, purchasable.value)}`,
+    packages:
+      packageCount === null
+        ? null
+        : `${Math.ceil(packageCount - 1e-9)} × ${ingredient.packageSize} ${packageUnit}`,
+    section: getStoreSection(ingredient),
+    checked: false,
+  }
+}
+
+// Builds the list for the purchased amounts of the adjusted recipe. Rows of
+// the same ingredient, e.g. butter for both the crust and the filling, are
+// added up in the unit of the first one; rows whose units do not convert
+// stay separate items.
+export function toShoppingList(
+  rows: Array<{ ingredient: Ingredient; quantity: number }>,
+  system?: MeasurementSystem,
+): Array<ShoppingItem> {
+  const merged = rows.reduce<
+    Array<{ ingredient: Ingredient; quantity: number }>
+  >((list, row) => {
+    const name = row.ingredient.name.trim().toLowerCase()
+    const index = list.findIndex((existing) => {
+      if (existing.ingredient.name.trim().toLowerCase() !== name) return false
+      return (
+        convertForIngredient(
+          1,
+          row.ingredient.unit,
+          existing.ingredient.unit,
+          existing.ingredient,
+        ) !== null
+      )
+    })
+    if (index === -1) return [...list, row]
+
+    const existing = list[index]
+    const added =
+      convertForIngredient(
+        row.quantity,
+        row.ingredient.unit,
+        existing.ingredient.unit,
+        existing.ingredient,
+      ) ?? 0
+    return list.map((candidate, i) =>
+      i === index
+        ? { ...candidate, quantity: candidate.quantity + added }
+        : candidate,
+    )
+  }, [])
+
+  const items = merged.map(({ ingredient, quantity }) =>
+    toShoppingItem(quantity, ingredient, system),
+  )
+  // Unconverted rows may still land on the same unit once made readable
+  return items.map((item, index) =>
+    items.slice(0, index).some((earlier) => earlier.id === item.id)
+      ? { ...item, id: `${item.id}|${index}` }
+      : item,
+  )
+}
+
+// Replaces the stored list with fresh items, keeping the ticks of items
+// that are still on it
+export function mergeShoppingList(
+  current: Array<ShoppingItem>,
+  items: Array<ShoppingItem>,
+): Array<ShoppingItem> {
+  return items.map((item) => ({
+    ...item,
+    checked: current.some(
+      (existing) => existing.id === item.id && existing.checked,
+    ),
+  }))
+}
+
+export function formatShoppingList(items: Array<ShoppingItem>) {
+  return STORE_SECTIONS.flatMap((section) => {
+    const sectionItems = items.filter((item) => item.section === section.id)
+    if (sectionItems.length === 0) return []
+
+    return [
+      `${section.label}:`,
+      ...sectionItems.map(
+        (item) =>
+          `- ${item.name}, ${item.packages ?? item.amount}${item.checked ? ' (done)' : ''}`,
+      ),
+      '',
+    ]
+  }).join('\n')
+}
@@ -0,0 +1,23 @@
+// Saves a rendered SVG element as a standalone file
+export function downloadSvg(svg: SVGSVGElement, filename: string) {
+  const markup = new XMLSerializer().serializeToString(svg)
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// SVG text does not wrap, so long statements are broken at word boundaries
+export function wrapText(text: string, maxLength: number): Array<string> {
+  return text.split(' ').reduce<Array<string>>((lines, word) => {
+    const last = lines.at(-1)
+    if (last !== undefined && `${last} ${word}`.length <= maxLength) {
+      lines[lines.length - 1] = `${last} ${word}`
+    } else {
+      lines.push(word)
+    }
+    return lines
+  }, [])
+}
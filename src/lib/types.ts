@@ -0,0 +1,108 @@
+import type { AllergenId, AllergenOverrides } from '@/lib/allergens'
+import type { WeightBasis } from '@/lib/edible'
+import type { FoodCategory } from '@/lib/food-categories'
+import type { ScalingPolicy } from '@/lib/scaling'
+
+// Types for our application
+export type Ingredient = {
+  id?: string
+  name: string
+  quantity: string
+  unit: string
+  calories: string
+  protein: string
+  carbs: string
+  fat: string
+  // Optional nutrients per 100 g or ml, in the units listed in NUTRIENTS
+  fiber?: string
+  sugars?: string
+  addedSugars?: string
+  saturatedFat?: string
+  transFat?: string
+  cholesterol?: string
+  sodium?: string
+  potassium?: string
+  calcium?: string
+  iron?: string
+  vitaminA?: string
+  vitaminC?: string
+  vitaminD?: string
+  polyols?: string
+  alcohol?: string
+  // Grams per millilitre, or grams per US cup, for converting volumes
+  density?: string
+  gramsPerCup?: string
+  // Weight of one counted item, e.g. one egg
+  gramsPerItem?: string
+  // How the row responds to a change in portions; defaults to a suggestion
+  // based on the ingredient name
+  policy?: ScalingPolicy
+  // Amount on hand when scaling by ingredient amounts; the unit defaults to
+  // the row's unit
+  available?: string
+  availableUnit?: string
+  // Bounds for the macro optimizer, in the row's unit
+  minQuantity?: string
+  maxQuantity?: string
+  // Cooked weight divided by raw weight, e.g. 2.8 for rice or 0.75 for
+  // chicken; defaults to a value from the food table
+  yieldFactor?: string
+  // Percentage of the purchased weight that is eaten once bones, peel or
+  // shells are trimmed, and whether the quantity is the purchased or the
+  // edible weight; defaults to the food table and purchased weight
+  ediblePortion?: string
+  weightBasis?: WeightBasis
+  // Baker's percentage mode: flour rows make up 100% of the formula, and a
+  // percentage typed on another row is kept while it is being edited
+  isFlour?: boolean
+  bakersPercent?: string
+  // Price paid for a package of the given size; the package unit defaults
+  // to the row's unit
+  price?: string
+  packageSize?: string
+  packageUnit?: string
+  // Whether package-aware scaling should aim for whole packages of this row
+  wholePackages?: boolean
+  // Confirmed, added or dismissed allergens on top of the ones detected
+  // from the name
+  allergens?: AllergenOverrides
+  // Food categories from the nutrition database; custom rows are
+  // classified from their name
+  categories?: Array<FoodCategory>
+  // Keep the typed unit instead of re-expressing scaled amounts
+  pinUnit?: boolean
+  searchQuery?: string
+}
+
+export type NutritionData = {
+  name: string
+  calories: number
+  protein: number
+  carbs: number
+  fat: number
+  fiber?: number
+  sugars?: number
+  addedSugars?: number
+  saturatedFat?: number
+  transFat?: number
+  cholesterol?: number
+  sodium?: number
+  potassium?: number
+  calcium?: number
+  iron?: number
+  vitaminA?: number
+  vitaminC?: number
+  vitaminD?: number
+  polyols?: number
+  alcohol?: number
+  servingSize: number
+  servingUnit: string
+  density?: number
+  gramsPerCup?: number
+  ediblePortion?: number
+  allergens?: Array<AllergenId>
+  categories?: Array<FoodCategory>
+  price?: number
+  packageSize?: number
+  packageUnit?: string
+}
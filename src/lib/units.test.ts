@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import {
+  convertQuantity,
+  findUnit,
+  formatUnit,
+  toBaseQuantity,
+  toReadableUnit,
+} from '@/lib/units'
+
+describe('findUnit', () => {
+  it('finds units by alias, ignoring case, dots and spacing', () => {
+    expect(findUnit('grams')?.id).toBe('g')
+    expect(findUnit(' Tbsp. ')?.id).toBe('tbsp')
+    expect(findUnit('fl. oz')?.id).toBe('fl oz')
+  })
+
+  it('keeps the cookbook shorthands T and t apart', () => {
+    expect(findUnit('T')?.id).toBe('tbsp')
+    expect(findUnit('t')?.id).toBe('tsp')
+  })
+
+  it('returns undefined for unknown or empty units', () => {
+    expect(findUnit('bunch')).toBeUndefined()
+    expect(findUnit('  ')).toBeUndefined()
+  })
+})
+
+describe('convertQuantity', () => {
+  it('converts within a dimension', () => {
+    expect(convertQuantity(1, 'cup', 'ml')).toBeCloseTo(236.59, 2)
+    expect(convertQuantity(1, 'kg', 'lb')).toBeCloseTo(2.2046, 4)
+    expect(convertQuantity(3, 'tsp', 'tbsp')).toBeCloseTo(1)
+  })
+
+  it('refuses to convert across dimensions or unknown units', () => {
+    expect(convertQuantity(100, 'g', 'ml')).toBeNull()
+    expect(convertQuantity(1, 'egg', 'g')).toBeNull()
+    expect(convertQuantity(1, 'bunch', 'g')).toBeNull()
+  })
+})
+
+describe('toBaseQuantity', () => {
+  it('expresses a quantity in the base unit of its dimension', () => {
+    expect(toBaseQuantity(1.5, 'kg')).toEqual({
+      value: 1500,
+      dimension: 'mass',
+    })
+    expect(toBaseQuantity(2, 'clove')).toEqual({
+      value: 2,
+      dimension: 'count',
+    })
+    expect(toBaseQuantity(1, 'bunch')).toBeNull()
+  })
+})
+
+describe('toReadableUnit', () => {
+  it('picks the largest unit the amount reads well in', () => {
+    const cup = toReadableUnit(48, 'tsp')
+    expect(cup.unit).toBe('cup')
+    expect(cup.value).toBeCloseTo(1)
+
+    expect(toReadableUnit(1500, 'g')).toEqual({ value: 1.5, unit: 'kg' })
+    expect(toReadableUnit(0.25, 'kg')).toEqual({ value: 250, unit: 'g' })
+  })
+
+  it('switches measurement system on request', () => {
+    const ounces = toReadableUnit(500, 'g', 'imperial')
+    expect(ounces.unit).toBe('lb')
+    expect(ounces.value).toBeCloseTo(1.102, 3)
+  })
+
+  it('leaves counted and unknown units alone', () => {
+    expect(toReadableUnit(12, 'egg')).toEqual({ value: 12, unit: 'egg' })
+    expect(toReadableUnit(3, 'bunch')).toEqual({ value: 3, unit: 'bunch' })
+  })
+})
+
+describe('formatUnit', () => {
+  it('pluralizes known units above one', () => {
+    expect(formatUnit('cups', 2)).toBe('cups')
+    expect(formatUnit('cups', 1)).toBe('cup')
+    expect(formatUnit('grams', 200)).toBe('g')
+    expect(formatUnit('bunch', 2)).toBe('bunch')
+  })
+})
@@ -0,0 +1,279 @@
+export type UnitDimension = 'mass' | 'volume' | 'count'
+
+export type MeasurementSystem = 'metric' | 'imperial' | 'none'
+
+export type UnitDefinition = {
+  id: string
+  label: string
+  plural?: string
+  dimension: UnitDimension
+  system: MeasurementSystem
+  // Size of one unit in the base unit of its dimension (g, ml or items)
+  toBase: number
+  // Base amount from which this unit reads best when re-expressing scaled
+  // quantities; units without it are never picked automatically
+  promoteFrom?: number
+  // Counted items are scaled in steps of whole or half items and may carry
+  // a typical weight for the nutrition math
+  countStep?: number
+  typicalGrams?: number
+  aliases: Array<string>
+}
+
+export const UNITS: Array<UnitDefinition> = [
+  // Mass, base unit is the gram
+  {
+    id: 'g',
+    label: 'g',
+    dimension: 'mass',
+    system: 'metric',
+    toBase: 1,
+    promoteFrom: 0,
+    aliases: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'],
+  },
+  {
+    id: 'kg',
+    label: 'kg',
+    dimension: 'mass',
+    system: 'metric',
+    toBase: 1000,
+    promoteFrom: 1000,
+    aliases: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'],
+  },
+  {
+    id: 'oz',
+    label: 'oz',
+    dimension: 'mass',
+    system: 'imperial',
+    toBase: 28.349523125,
+    promoteFrom: 0,
+    aliases: ['oz', 'ounce', 'ounces'],
+  },
+  {
+    id: 'lb',
+    label: 'lb',
+    dimension: 'mass',
+    system: 'imperial',
+    toBase: 453.59237,
+    promoteFrom: 453.59237,
+    aliases: ['lb', 'lbs', 'pound', 'pounds'],
+  },
+
+  // Volume, base unit is the millilitre
+  {
+    id: 'ml',
+    label: 'ml',
+    dimension: 'volume',
+    system: 'metric',
+    toBase: 1,
+    promoteFrom: 0,
+    aliases: [
+      'ml',
+      'mls',
+      'millilitre',
+      'millilitres',
+      'milliliter',
+      'milliliters',
+    ],
+  },
+  {
+    id: 'l',
+    label: 'l',
+    dimension: 'volume',
+    system: 'metric',
+    toBase: 1000,
+    promoteFrom: 1000,
+    aliases: ['l', 'litre', 'litres', 'liter', 'liters', 'ltr'],
+  },
+  {
+    id: 'tsp',
+    label: 'tsp',
+    dimension: 'volume',
+    system: 'imperial',
+    toBase: 4.92892159375,
+    promoteFrom: 0,
+    aliases: ['t', 'tsp', 'tsps', 'teaspoon', 'teaspoons'],
+  },
+  {
+    id: 'tbsp',
+    label: 'tbsp',
+    dimension: 'volume',
+    system: 'imperial',
+    toBase: 14.78676478125,
+    promoteFrom: 14.78676478125,
+    aliases: ['T', 'tbsp', 'tbsps', 'tbs', 'tablespoon', 'tablespoons'],
+  },
+  {
+    id: 'fl oz',
+    label: 'fl oz',
+    dimension: 'volume',
+    system: 'imperial',
+    toBase: 29.5735295625,
+    aliases: ['fl oz', 'floz', 'fluid ounce', 'fluid ounces'],
+  },
+  {
+    id: 'cup',
+    label: 'cup',
+    plural: 'cups',
+    dimension: 'volume',
+    system: 'imperial',
+    toBase: 236.5882365,
+    promoteFrom: 59.147059125,
+    aliases: ['c', 'cup', 'cups'],
+  },
+  {
+    id: 'pint',
+    label: 'pint',
+    plural: 'pints',
+    dimension: 'volume',
+    system: 'imperial',
+    toBase: 473.176473,
+    aliases: ['pt', 'pint', 'pints'],
+  },
+  {
+    id: 'quart',
+    label: 'quart',
+    plural: 'quarts',
+    dimension: 'volume',
+    system: 'imperial',
+    toBase: 946.352946,
+    promoteFrom: 946.352946,
+    aliases: ['qt', 'quart', 'quarts'],
+  },
+
+  // Count, base unit is a single item
+  {
+    id: 'piece',
+    label: 'piece',
+    plural: 'pieces',
+    dimension: 'count',
+    system: 'none',
+    toBase: 1,
+    countStep: 0.5,
+    aliases: ['pc', 'pcs', 'piece', 'pieces', 'item', 'items', 'each', 'ea'],
+  },
+  {
+    id: 'egg',
+    label: 'egg',
+    plural: 'eggs',
+    dimension: 'count',
+    system: 'none',
+    toBase: 1,
+    countStep: 1,
+    typicalGrams: 50,
+    aliases: ['egg', 'eggs'],
+  },
+  {
+    id: 'clove',
+    label: 'clove',
+    plural: 'cloves',
+    dimension: 'count',
+    system: 'none',
+    toBase: 1,
+    countStep: 1,
+    typicalGrams: 5,
+    aliases: ['clove', 'cloves'],
+  },
+  {
+    id: 'can',
+    label: 'can',
+    plural: 'cans',
+    dimension: 'count',
+    system: 'none',
+    toBase: 1,
+    countStep: 0.5,
+    typicalGrams: 400,
+    aliases: ['can', 'cans', 'tin', 'tins'],
+  },
+  {
+    id: 'slice',
+    label: 'slice',
+    plural: 'slices',
+    dimension: 'count',
+    system: 'none',
+    toBase: 1,
+    countStep: 0.5,
+    typicalGrams: 30,
+    aliases: ['slice', 'slices'],
+  },
+]
+
+const normalizeUnit = (unit: string) =>
+  unit.trim().replace(/\.+/g, ' ').replace(/\s+/g, ' ').trim()
+
+// Looks up a free-typed unit. Exact-case aliases win first so that the
+// cookbook shorthands "T" (tablespoon) and "t" (teaspoon) stay distinct.
+export function findUnit(unit: string): UnitDefinition | undefined {
+  const normalized = normalizeUnit(unit)
+  if (!normalized) return undefined
+
+  return (
+    UNITS.find((definition) => definition.aliases.includes(normalized)) ??
+    UNITS.find((definition) =>
+      definition.aliases.includes(normalized.toLowerCase()),
+    )
+  )
+}
+
+// Expresses a quantity in the base unit of its dimension, or returns null
+// when the unit is not known
+export function toBaseQuantity(
+  value: number,
+  unit: string,
+): { value: number; dimension: UnitDimension } | null {
+  const definition = findUnit(unit)
+  if (!definition) return null
+
+  return { value: value * definition.toBase, dimension: definition.dimension }
+}
+
+// Converts between two units of the same dimension, or returns null when
+// either unit is unknown or the dimensions differ
+export function convertQuantity(
+  value: number,
+  fromUnit: string,
+  toUnit: string,
+): number | null {
+  const from = findUnit(fromUnit)
+  const to = findUnit(toUnit)
+  if (!from || !to || from.dimension !== to.dimension) return null
+
+  return (value * from.toBase) / to.toBase
+}
+
+// Re-expresses a quantity in the most readable unit of the same dimension,
+// e.g. 48 tsp as 1 cup or 1500 g as 1.5 kg. Stays within the measurement
+// system of the original unit unless another system is requested.
+export function toReadableUnit(
+  value: number,
+  unit: string,
+  system?: MeasurementSystem,
+): { value: number; unit: string } {
+  const definition = findUnit(unit)
+  if (!definition || definition.dimension === 'count') return { value, unit }
+
+  const targetSystem = system ?? definition.system
+  const base = value * definition.toBase
+  // Tolerate floating point drift right at a threshold
+  const readable = UNITS.filter(
+    (candidate) =>
+      candidate.dimension === definition.dimension &&
+      candidate.system === targetSystem &&
+      candidate.promoteFrom !== undefined &&
+      candidate.promoteFrom <= base * 1.0001,
+  )
+    .sort((a, b) => (b.promoteFrom ?? 0) - (a.promoteFrom ?? 0))
+    .at(0)
+
+  if (!readable) return { value, unit }
+  return { value: base / readable.toBase, unit: readable.label }
+}
+
+// Canonical label for a known unit, pluralized for amounts above one.
+// Unknown units are shown as typed.
+export function formatUnit(unit: string, value: number) {
+  const definition = findUnit(unit)
+  if (!definition) return unit
+
+  return value > 1 && definition.plural ? definition.plural : definition.label
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { findFoodYield, getYieldFactor } from '@/lib/yield'
+
+describe('findFoodYield', () => {
+  it('finds foods by whole words, plurals included', () => {
+    expect(findFoodYield('Basmati rice')?.factor).toBe(2.8)
+    expect(findFoodYield('rolled oats')?.factor).toBe(2.5)
+    expect(findFoodYield('egg noodles')?.factor).toBe(2.25)
+    expect(findFoodYield('fried chicken')?.factor).toBe(0.85)
+    expect(findFoodYield('chicken breasts')?.factor).toBe(0.75)
+    expect(findFoodYield('dried beans')?.factor).toBe(2.4)
+    expect(findFoodYield('goat cheese')).toBeUndefined()
+  })
+
+  it('leaves products made from a food alone', () => {
+    expect(findFoodYield('oat milk')).toBeUndefined()
+    expect(findFoodYield('rice vinegar')).toBeUndefined()
+    expect(findFoodYield('rice flour')).toBeUndefined()
+    expect(findFoodYield('chicken stock')).toBeUndefined()
+    expect(findFoodYield('fish sauce')).toBeUndefined()
+    expect(findFoodYield('chocolate chips')).toBeUndefined()
+    expect(findFoodYield('beef stock cube')).toBeUndefined()
+  })
+})
+
+describe('getYieldFactor', () => {
+  it('prefers an explicit factor over the table', () => {
+    expect(getYieldFactor({ name: 'rice', yieldFactor: '3' })).toBe(3)
+    expect(getYieldFactor({ name: 'rice', yieldFactor: '' })).toBe(2.8)
+    expect(getYieldFactor({ name: 'rice vinegar' })).toBe(1)
+  })
+})
@@ -0,0 +1,130 @@
+import type { Ingredient } from '@/lib/types'
+import { matchesAnyKeyword } from '@/lib/keywords'
+
+export type YieldKind = 'absorption' | 'moisture loss' | 'oil uptake'
+
+type FoodYield = {
+  name: string
+  keywords: Array<string>
+  // Cooked weight divided by raw weight
+  factor: number
+  kind: YieldKind
+}
+
+// Typical raw-to-cooked weight changes. More specific entries come first so
+// that "fried chicken" is not read as plain chicken.
+export const FOOD_YIELDS: Array<FoodYield> = [
+  {
+    name: 'Fried potatoes',
+    keywords: ['fries', 'fried potato', 'potato chip'],
+    factor: 0.65,
+    kind: 'oil uptake',
+  },
+  {
+    name: 'Fried chicken',
+    keywords: ['fried chicken'],
+    factor: 0.85,
+    kind: 'oil uptake',
+  },
+  {
+    name: 'Doughnuts',
+    keywords: ['doughnut', 'donut'],
+    factor: 1.1,
+    kind: 'oil uptake',
+  },
+  { name: 'Rice', keywords: ['rice'], factor: 2.8, kind: 'absorption' },
+  {
+    name: 'Pasta',
+    keywords: ['pasta', 'spaghetti', 'penne', 'macaroni', 'noodle'],
+    factor: 2.25,
+    kind: 'absorption',
+  },
+  {
+    name: 'Dried beans',
+    keywords: ['dried bean', 'dry bean', 'dried chickpea'],
+    factor: 2.4,
+    kind: 'absorption',
+  },
+  { name: 'Lentils', keywords: ['lentil'], factor: 2.5, kind: 'absorption' },
+  {
+    name: 'Oats',
+    keywords: ['oat', 'oatmeal'],
+    factor: 2.5,
+    kind: 'absorption',
+  },
+  { name: 'Quinoa', keywords: ['quinoa'], factor: 2.7, kind: 'absorption' },
+  {
+    name: 'Chicken',
+    keywords: ['chicken', 'turkey'],
+    factor: 0.75,
+    kind: 'moisture loss',
+  },
+  {
+    name: 'Beef',
+    keywords: ['beef', 'steak', 'mince'],
+    factor: 0.7,
+    kind: 'moisture loss',
+  },
+  {
+    name: 'Pork',
+    keywords: ['pork', 'bacon'],
+    factor: 0.7,
+    kind: 'moisture loss',
+  },
+  {
+    name: 'Fish',
+    keywords: ['fish', 'salmon', 'cod', 'tuna'],
+    factor: 0.8,
+    kind: 'moisture loss',
+  },
+  {
+    name: 'Leafy greens',
+    keywords: ['spinach', 'kale', 'chard'],
+    factor: 0.3,
+    kind: 'moisture loss',
+  },
+  {
+    name: 'Mushrooms',
+    keywords: ['mushroom'],
+    factor: 0.6,
+    kind: 'moisture loss',
+  },
+  { name: 'Onions', keywords: ['onion'], factor: 0.8, kind: 'moisture loss' },
+]
+
+// Products made from a food do not cook like it, so "oat milk" or "chicken
+// stock" keep their weight. Dried forms are not listed, as dried beans are
+// exactly what soaks up water.
+const PRODUCT_KEYWORDS = [
+  'milk',
+  'flour',
+  'starch',
+  'vinegar',
+  'wine',
+  'stock',
+  'broth',
+  'sauce',
+  'cube',
+  'powder',
+  'paste',
+  'oil',
+  'syrup',
+  'juice',
+]
+
+export function findFoodYield(name: string): FoodYield | undefined {
+  if (matchesAnyKeyword(name, PRODUCT_KEYWORDS)) return undefined
+
+  return FOOD_YIELDS.find((food) => matchesAnyKeyword(name, food.keywords))
+}
+
+// Resolves the cooked-to-raw weight factor of a row: an explicit factor
+// wins over the built-in table, and unknown foods keep their weight
+export function getYieldFactor(
+  ingredient: Pick<Ingredient, 'name' | 'yieldFactor'>,
+) {
+  const factor = Number.parseFloat(ingredient.yieldFactor ?? '')
+  if (factor > 0) return factor
+
+  return findFoodYield(ingredient.name)?.factor ?? 1
+}
@@ -0,0 +1,6 @@
+import { createFileRoute } from '@tanstack/react-router'
+import Pantry from '@/components/pantry.tsx'
+
+export const Route = createFileRoute('/pantry')({
+  component: Pantry,
+})